@@ -0,0 +1,234 @@
+import fs from "fs";
+import { parseArgs } from "util";
+import { z } from "zod";
+import Logger from "./utils/logger.js";
+import { PrefixManager } from "./utils/PrefixManager.js";
+import { loadConfig } from "./config.js";
+import { createToolSchemas } from "./schemas.js";
+import { DatasetRegistry, type DatasetServices } from "./services/DatasetRegistry.js";
+import { EmbeddingHelper } from "./services/EmbeddingHelper.js";
+import { createQueryOptions } from "./services/QueryService.js";
+import { QueryCache } from "./utils/QueryCache.js";
+import {
+    formatInspectionForAgent,
+    formatInspectionForUser,
+    formatInspectionForApi,
+    formatResourceResultForAgent,
+    formatResourceResultForUser,
+    formatTriplesForAgent,
+    formatTriplesForUser,
+    formatQuadsForApi,
+    formatQueryBuilderResultForAgent,
+    formatQueryBuilderResultForUser,
+    formatQueryBuilderResultForApi,
+} from "./utils/formatting/index.js";
+
+type OutputFormat = "agent" | "user" | "json";
+
+interface CliContext {
+    datasets: DatasetRegistry;
+    schemas: ReturnType<typeof createToolSchemas>;
+    format: OutputFormat;
+    values: Record<string, any>;
+}
+
+interface CliCommand {
+    usage: string;
+    description: string;
+    run: (positionals: string[], context: CliContext) => Promise<string>;
+}
+
+/**
+  * Validate command input with the MCP tool's zod schema
+  */
+function parseInput<S extends z.ZodRawShape>(shape: S, input: Record<string, unknown>): z.infer<z.ZodObject<S>> {
+    const parsed = z.object(shape).strict().safeParse(input);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map((issue) => `  - ${issue.path.join(".") || "(input)"}: ${issue.message}`);
+        throw new Error(`Invalid arguments:\n${issues.join("\n")}`);
+    }
+    return parsed.data;
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+    return value === undefined ? undefined : Number(value);
+}
+
+function json(value: unknown): string {
+    return JSON.stringify(value, null, 2);
+}
+
+function dataset(context: CliContext, name: string | undefined): DatasetServices {
+    return context.datasets.get(name);
+}
+
+const COMMANDS: Record<string, CliCommand> = {
+    search: {
+        usage: "search <query...> [--limit N] [--offset N]",
+        description: "Search for entities, classes and properties",
+        run: async (positionals, context) => {
+            const input = parseInput(context.schemas.search, {
+                query: positionals.join(" "),
+                limit: optionalNumber(context.values.limit),
+                offset: optionalNumber(context.values.offset),
+                dataset: context.values.dataset,
+            });
+            const { config, searchService, prefixes } = dataset(context, input.dataset);
+            const results = await searchService.searchAll(input.query.replace(/^'|'$/g, ""), config.endpoint, input.limit, input.offset);
+
+            if (context.format === "json") return json({ dataset: config.name, results });
+            return context.format === "user" ? formatResourceResultForUser(results) : formatResourceResultForAgent(results, prefixes);
+        },
+    },
+    inspect: {
+        usage: "inspect <uri> [--expand <propertyUri>]...",
+        description: "Show the relationships and properties of a URI",
+        run: async (positionals, context) => {
+            const input = parseInput(context.schemas.inspect, {
+                uri: positionals[0],
+                expandProperties: context.values.expand,
+                dataset: context.values.dataset,
+            });
+            const { config, inspectionService, prefixes } = dataset(context, input.dataset);
+            const result = await inspectionService.inspect(input.uri, input.expandProperties);
+
+            if (context.format === "json") return json({ dataset: config.name, result: formatInspectionForApi(result) });
+            return context.format === "user" ? formatInspectionForUser(result) : formatInspectionForAgent(result, prefixes);
+        },
+    },
+    fact: {
+        usage: "fact <subject> <predicate> <object> [--limit N]",
+        description: "Match a triple pattern ('_' as wildcard)",
+        run: async (positionals, context) => {
+            const [subject, predicate, object] = positionals;
+            const input = parseInput(context.schemas.fact, {
+                subject,
+                predicate,
+                object,
+                limit: optionalNumber(context.values.limit),
+                dataset: context.values.dataset,
+            });
+            const { config, tripleService, prefixes } = dataset(context, input.dataset);
+            const quads = await tripleService.completeTriple(input.subject, input.predicate, input.object, input.limit);
+
+            if (context.format === "json") return json({ dataset: config.name, triples: formatQuadsForApi(quads) });
+            if (context.format === "user") return formatTriplesForUser(quads);
+            return quads.length === 0 ? "No matching triples found." : formatTriplesForAgent(quads, prefixes);
+        },
+    },
+    build: {
+        usage: "build <query.json | ->",
+        description: "Run a query_builder query from a JSON file (or stdin)",
+        run: async (positionals, context) => {
+            const file = positionals[0];
+            if (!file) throw new Error("Missing query file");
+
+            let raw: Record<string, unknown>;
+            try {
+                raw = JSON.parse(fs.readFileSync(file === "-" ? 0 : file, "utf-8"));
+            } catch (error) {
+                throw new Error(`Could not read query '${file}': ${error instanceof Error ? error.message : error}`);
+            }
+            const input = parseInput(context.schemas.queryBuilder, {
+                ...raw,
+                ...(context.values.dataset ? { dataset: context.values.dataset } : {}),
+            });
+            const { config, queryBuilderService, prefixes } = dataset(context, input.dataset);
+            const params = { type: input.type, filters: input.filters, project: input.project, limit: input.limit };
+            const result = await queryBuilderService.executeQuery(params);
+
+            if (context.format === "json") {
+                const description = await queryBuilderService.generateDescription(params);
+                return json({ dataset: config.name, description, ...formatQueryBuilderResultForApi(result) });
+            }
+            return context.format === "user" ? formatQueryBuilderResultForUser(result) : formatQueryBuilderResultForAgent(result, prefixes);
+        },
+    },
+};
+
+export const CLI_COMMANDS = Object.keys(COMMANDS);
+
+function usage(): string {
+    const commands = Object.values(COMMANDS).map((command) => `  kg-mcp ${command.usage.padEnd(52)} ${command.description}`);
+    return [
+        "Usage:",
+        "  kg-mcp [--transport http|stdio] [--config <file>]     Start the MCP server",
+        ...commands,
+        "",
+        "Options for commands:",
+        "  --format agent|user|json   Output as agent Markdown (default), user Markdown or JSON",
+        "  --dataset <name>           Dataset to query (default: the configured default)",
+        "  --config <file>            JSON config file (or MCP_CONFIG)",
+        "  --verbose                  Log to stderr at the configured level (default: warnings only)",
+    ].join("\n");
+}
+
+/**
+  * Run a tool from the command line with the server's configuration and services.
+  * Returns the process exit code.
+  */
+export async function runCli(argv: string[]): Promise<number> {
+    let parsed;
+    try {
+        parsed = parseArgs({
+            args: argv,
+            options: {
+                format: { type: "string", default: "agent" },
+                dataset: { type: "string" },
+                config: { type: "string" },
+                limit: { type: "string" },
+                offset: { type: "string" },
+                expand: { type: "string", multiple: true },
+                verbose: { type: "boolean", default: false },
+                help: { type: "boolean", short: "h", default: false },
+            },
+            allowPositionals: true,
+        });
+    } catch (error) {
+        console.error(`${error instanceof Error ? error.message : error}\n\n${usage()}`);
+        return 2;
+    }
+
+    const { values, positionals } = parsed;
+    const [commandName, ...commandArgs] = positionals;
+    const command = COMMANDS[commandName];
+    if (!command || values.help) {
+        (command ? console.log : console.error)(usage());
+        return command ? 0 : 2;
+    }
+    if (!["agent", "user", "json"].includes(values.format!)) {
+        console.error(`Invalid --format '${values.format}'. Use agent, user or json.`);
+        return 2;
+    }
+
+    try {
+        const config = loadConfig({ configPath: values.config || process.env.MCP_CONFIG });
+
+        // stdout is reserved for the command's output
+        Logger.initialize({
+            logFile: config.logging.file,
+            logLevel: values.verbose ? config.logging.level : "warn",
+            enableConsole: config.logging.console,
+            useStderr: true,
+        });
+        PrefixManager.getInstance().registerPrefixes(config.prefixes);
+
+        const datasets = new DatasetRegistry(
+            config.datasets,
+            config.defaultDataset,
+            new EmbeddingHelper(config.embedding.batchSize),
+            createQueryOptions(config.sparql, new QueryCache(config.cache))
+        );
+        const output = await command.run(commandArgs, {
+            datasets,
+            schemas: createToolSchemas(datasets),
+            format: values.format as OutputFormat,
+            values,
+        });
+        console.log(output);
+        return 0;
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : String(error));
+        return 1;
+    }
+}
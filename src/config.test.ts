@@ -0,0 +1,115 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig, parsePrefixList } from './config.js';
+
+describe('Configuration', () => {
+    const tempDirs: string[] = [];
+
+    const writeConfig = (content: unknown): string => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kg-mcp-config-'));
+        tempDirs.push(dir);
+        const file = path.join(dir, 'config.json');
+        fs.writeFileSync(file, typeof content === 'string' ? content : JSON.stringify(content));
+        return file;
+    };
+
+    afterEach(() => {
+        for (const dir of tempDirs.splice(0)) {
+            fs.rmSync(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('should build a default dataset from the legacy environment variables', () => {
+        const config = loadConfig({
+            env: { SPARQL_ENDPOINT: 'https://sparql.dblp.org/sparql', ENDPOINT_ENGINE: 'QLever', MCP_PORT: '4000' },
+        });
+
+        expect(config.datasets).toEqual([{ name: 'default', endpoint: 'https://sparql.dblp.org/sparql', engine: 'qlever' }]);
+        expect(config.server.port).toBe(4000);
+        expect(config.retention.days).toBe(90);
+        expect(config.branding.name).toBe('MCP Knowledge Graph Server');
+    });
+
+    it('should let environment variables override the config file', () => {
+        const configPath = writeConfig({
+            datasets: [
+                { name: 'dblp', endpoint: 'https://sparql.dblp.org/sparql', engine: 'qlever' },
+                { name: 'local', endpoint: 'http://localhost:7001/sparql' },
+            ],
+            defaultDataset: 'local',
+            sessions: { maxSessions: 5 },
+            branding: { name: 'Acme Graph' },
+        });
+
+        const config = loadConfig({
+            configPath,
+            env: { SPARQL_TOKEN: 'secret', MAX_SESSIONS: '10', PUBLIC_PAGES: 'true' },
+            overrides: { transport: 'stdio' },
+        });
+
+        expect(config.transport).toBe('stdio');
+        expect(config.sessions.maxSessions).toBe(10);
+        expect(config.auth.publicPages).toBe(true);
+        expect(config.datasets[1].token).toBe('secret');
+        expect(config.datasets[0].token).toBeUndefined();
+        expect(config.branding.name).toBe('Acme Graph');
+    });
+
+    it('should report every invalid value with its source', () => {
+        const configPath = writeConfig({
+            datasets: [{ name: 'dblp', endpoint: 'not a url', engine: 'stardog' }],
+            retention: { days: -1 },
+            unknownKey: true,
+        });
+
+        let message = '';
+        try {
+            loadConfig({ configPath, env: { MCP_PORT: 'abc', CUSTOM_PREFIXES: 'ok:<http://ok.org/>,broken' } });
+        } catch (error) {
+            message = (error as Error).message;
+        }
+
+        expect(message).toContain('datasets.0.endpoint: Endpoint must be a URL');
+        expect(message).toContain("datasets.0.engine: Invalid enum value. Expected 'auto' | 'qlever' | 'virtuoso' | 'blazegraph' | 'graphdb' | 'jena' | 'fallback', received 'stardog'");
+        expect(message).toContain('retention.days');
+        expect(message).toMatch(/server\.port: .*\(from MCP_PORT\)/);
+        expect(message).toContain("CUSTOM_PREFIXES: Malformed entries 'broken'");
+        expect(message).toContain('unknownKey');
+    });
+
+    it('should check source types against the endpoint and engine', () => {
+        const tpf = 'https://fragments.dbpedia.org/2016-04/en';
+        expect(loadConfig({ env: { SPARQL_ENDPOINT: tpf, SOURCE_TYPE: 'TPF' } }).datasets[0].sourceType).toBe('tpf');
+        expect(() => loadConfig({ env: { SPARQL_ENDPOINT: tpf, SOURCE_TYPE: 'tpf', ENDPOINT_ENGINE: 'qlever' } }))
+            .toThrowError(/The 'qlever' engine needs a SPARQL endpoint, not a 'tpf' source/);
+        expect(() => loadConfig({ env: { SPARQL_ENDPOINT: 'file:///data/dump.ttl', SOURCE_TYPE: 'sparql' } }))
+            .toThrowError(/file:\/\/ endpoints are local files, not 'sparql' sources/);
+        expect(() => loadConfig({ env: { SPARQL_ENDPOINT: 'http://localhost:7200/repositories/kg', ENDPOINT_ENGINE: 'graphdb' } }))
+            .toThrowError(/The 'graphdb' engine needs 'searchIndex'/);
+    });
+
+    it('should refuse public pages behind API keys unless they are asked for', () => {
+        const env = { SPARQL_ENDPOINT: 'https://sparql.dblp.org/sparql', MCP_API_KEYS: 'key1' };
+        expect(() => loadConfig({ env })).toThrowError(/set LINK_SIGNING_SECRET to sign page links, or PUBLIC_PAGES=true/);
+        expect(loadConfig({ env: { ...env, LINK_SIGNING_SECRET: 'secret' } }).auth.apiKeys).toEqual(['key1']);
+        expect(loadConfig({ env: { ...env, PUBLIC_PAGES: 'true' } }).auth.publicPages).toBe(true);
+    });
+
+    it('should require at least one dataset', () => {
+        expect(() => loadConfig({ env: {} })).toThrowError(/At least one dataset is required/);
+    });
+
+    it('should reject a config file that is not JSON', () => {
+        const configPath = writeConfig('{ datasets: ');
+        expect(() => loadConfig({ configPath, env: {} })).toThrowError(/is not valid JSON/);
+    });
+
+    it('should parse prefix lists and collect malformed entries', () => {
+        expect(parsePrefixList('foaf:<http://xmlns.com/foaf/0.1/>, schema:<http://schema.org/>,oops')).toEqual({
+            prefixes: { foaf: 'http://xmlns.com/foaf/0.1/', schema: 'http://schema.org/' },
+            invalid: ['oops'],
+        });
+    });
+});
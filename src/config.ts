@@ -0,0 +1,353 @@
+import fs from "fs";
+import { z } from "zod";
+import { BUILTIN_SERVICES } from "./utils/queryPolicy.js";
+import { isLocalSource } from "./utils/LocalSource.js";
+import { resolveSourceType } from "./utils/sourceTypes.js";
+
+/**
+ * Server configuration: an optional JSON config file, overridden by environment
+ * variables, validated with zod at startup.
+ */
+
+const PrefixesSchema = z.record(
+    z.string().regex(/^[A-Za-z_][\w-]*$/, "Prefix names may only contain letters, digits, '_' or '-'"),
+    z.string().url("Prefix namespaces must be absolute IRIs")
+);
+
+const EngineSchema = z.preprocess(
+    (value) => (typeof value === "string" ? value.toLowerCase() : value),
+    z.enum(["auto", "qlever", "virtuoso", "blazegraph", "graphdb", "jena", "fallback"])
+);
+
+const SourceTypeSchema = z.preprocess(
+    (value) => (typeof value === "string" ? value.toLowerCase() : value),
+    z.enum(["sparql", "tpf", "file", "hypermedia"])
+);
+
+const DatasetSchema = z.object({
+    name: z.string().regex(/^[A-Za-z0-9_-]+$/, "Dataset names may only contain letters, digits, '_' or '-'"),
+    endpoint: z.string().url("Endpoint must be a URL (http(s):// for SPARQL endpoints, file:// for local RDF files)"),
+    /** 'sparql', 'tpf', 'file' or 'hypermedia' (default: 'file' for file:// URLs, else 'sparql') */
+    sourceType: SourceTypeSchema.optional(),
+    /** Search backend: 'auto' (default) detects the endpoint's engine, the others pin one */
+    engine: EngineSchema.default("auto"),
+    /** GraphDB Lucene connector used by the 'graphdb' backend */
+    searchIndex: z.string().regex(/^[A-Za-z0-9_-]+$/, "Search index names may only contain letters, digits, '_' or '-'").optional(),
+    token: z.string().optional(),
+    prefixes: PrefixesSchema.optional(),
+    description: z.string().optional(),
+    cacheTtlSeconds: z.number().min(0).optional(),
+    timeoutSeconds: z.number().min(0).optional(),
+    requestsPerSecond: z.number().min(0).optional(),
+    burst: z.number().int().min(1).optional(),
+    maxConcurrent: z.number().int().min(0).optional(),
+}).strict();
+
+export const ConfigSchema = z.object({
+    transport: z.enum(["http", "stdio"]).default("http"),
+    server: z.object({
+        port: z.number().int().min(1).max(65535).default(3000),
+        /** Public base URL used in generated links (default http://localhost:{port}) */
+        publicUrl: z.string().url().optional(),
+    }).strict().default({}),
+    datasets: z.array(DatasetSchema)
+        .min(1, "At least one dataset is required - set SPARQL_ENDPOINT or 'datasets' in the config file")
+        .default([]),
+    defaultDataset: z.string().optional(),
+    /** Global prefixes on top of the built-in ones */
+    prefixes: PrefixesSchema.default({}),
+    logging: z.object({
+        file: z.string().optional(),
+        level: z.enum(["error", "warn", "info", "http", "verbose", "debug", "silly"]).default("info"),
+        /** Colored, human-readable console output */
+        console: z.boolean().default(false),
+    }).strict().default({}),
+    embedding: z.object({
+        batchSize: z.number().int().positive().default(32),
+    }).strict().default({}),
+    sparql: z.object({
+        /** Abort a SPARQL query after this long (0 = no timeout), per dataset via `timeoutSeconds` */
+        timeoutSeconds: z.number().min(0).default(60),
+        /** Sustained request rate per endpoint (0 = unlimited), shared by all sessions */
+        requestsPerSecond: z.number().min(0).default(10),
+        /** Requests that may start at once after an idle period */
+        burst: z.number().int().min(1).default(10),
+        /** Queries in flight per endpoint (0 = unlimited); more wait in a queue */
+        maxConcurrent: z.number().int().min(0).default(4),
+        /** Top-level LIMIT added to or lowered on SELECT, CONSTRUCT and DESCRIBE queries (0 = no cap) */
+        maxLimit: z.number().int().min(0).default(10000),
+        /** SERVICE endpoints agent queries may call (IRIs, or prefixes ending in '*') */
+        allowedServices: z.array(z.string().min(1)).default(BUILTIN_SERVICES),
+        /** Steps of the longest property path in agent queries (0 = no cap) */
+        maxPathDepth: z.number().int().min(0).default(0),
+        /** Triple patterns and graph pattern operators in agent queries (0 = no cap) */
+        maxComplexity: z.number().int().min(0).default(0),
+        /** Retries of transient failures (429, 502, 503, 504, dropped connections) */
+        maxRetries: z.number().int().min(0).default(3),
+        /** Backoff before the first retry, doubled (with jitter) for each further retry */
+        retryBaseDelayMs: z.number().min(0).default(500),
+        /** Longest single wait between retries, also caps `Retry-After` */
+        retryMaxDelayMs: z.number().min(0).default(30000),
+    }).strict().default({}),
+    cache: z.object({
+        /** SPARQL results kept across calls and sessions (0 = caching disabled) */
+        maxEntries: z.number().int().min(0).default(1000),
+        /** Default lifetime of a cached result, per dataset via `cacheTtlSeconds` */
+        ttlSeconds: z.number().min(0).default(300),
+    }).strict().default({}),
+    storage: z.object({
+        backend: z.enum(["memory", "file"]).default("memory"),
+        path: z.string().default("./data"),
+    }).strict().default({}),
+    retention: z.object({
+        days: z.number().min(0).default(90),
+        unusedHours: z.number().min(0).default(24),
+        sweepMinutes: z.number().positive().default(60),
+    }).strict().default({}),
+    sessions: z.object({
+        idleTimeoutMinutes: z.number().min(0).default(30),
+        maxSessions: z.number().int().min(0).default(100),
+    }).strict().default({}),
+    eventStore: z.object({
+        /** SSE events kept per stream for Last-Event-ID resumption (0 = unlimited) */
+        maxEventsPerStream: z.number().int().min(0).default(1000),
+        /** Age after which buffered events are dropped (0 = until the session ends) */
+        maxAgeMinutes: z.number().min(0).default(60),
+    }).strict().default({}),
+    auth: z.object({
+        apiKeys: z.array(z.string().min(1)).default([]),
+        linkSigningSecret: z.string().min(1).optional(),
+        linkTokenTtlDays: z.number().positive().default(90),
+        publicPages: z.boolean().default(false),
+    }).strict().default({}),
+    health: z.object({
+        /** Timeout of each endpoint probe in /readyz */
+        probeTimeoutSeconds: z.number().positive().default(5),
+    }).strict().default({}),
+    branding: z.object({
+        /** Shown in page footers */
+        name: z.string().min(1).default("MCP Knowledge Graph Server"),
+        /** Heading of citation pages */
+        citationTitle: z.string().min(1).default("Knowledge Graph Citation"),
+    }).strict().default({}),
+}).strict().superRefine((config, ctx) => {
+    const names = new Set<string>();
+    config.datasets.forEach((dataset, index) => {
+        if (names.has(dataset.name)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["datasets", index, "name"], message: `Duplicate dataset name '${dataset.name}'` });
+        }
+        names.add(dataset.name);
+
+        const sourceType = resolveSourceType(dataset.endpoint, dataset.sourceType);
+        if (isLocalSource(dataset.endpoint) && sourceType !== "file") {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["datasets", index, "sourceType"], message: `file:// endpoints are local files, not '${sourceType}' sources` });
+        }
+        if (dataset.engine !== "auto" && dataset.engine !== "fallback" && sourceType !== "sparql") {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["datasets", index, "engine"], message: `The '${dataset.engine}' engine needs a SPARQL endpoint, not a '${sourceType}' source` });
+        }
+        if (dataset.engine === "graphdb" && !dataset.searchIndex) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["datasets", index, "searchIndex"], message: "The 'graphdb' engine needs 'searchIndex', the name of a Lucene connector" });
+        }
+    });
+    // Otherwise anyone could read the pages of a server that requires API keys
+    if (config.auth.apiKeys.length > 0 && !config.auth.linkSigningSecret && !config.auth.publicPages) {
+        ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["auth", "linkSigningSecret"],
+            message: "API keys are configured but citation and explanation pages would be public: set LINK_SIGNING_SECRET to sign page links, or PUBLIC_PAGES=true to keep them public",
+        });
+    }
+    if (config.defaultDataset && !names.has(config.defaultDataset)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["defaultDataset"], message: `Unknown dataset '${config.defaultDataset}'` });
+    }
+});
+
+export type AppConfig = z.infer<typeof ConfigSchema>;
+export type Branding = AppConfig["branding"];
+
+type EnvParser = (value: string) => unknown;
+
+const asString: EnvParser = (value) => value;
+const asNumber: EnvParser = (value) => (value.trim() === "" ? NaN : Number(value));
+const asList: EnvParser = (value) => value.split(",").map((v) => v.trim()).filter(Boolean);
+const asBoolean: EnvParser = (value) => {
+    if (["true", "1"].includes(value.toLowerCase())) return true;
+    if (["false", "0"].includes(value.toLowerCase())) return false;
+    return value; // Rejected by the schema with a clear message
+};
+
+/**
+ * Environment variables that override a single config value
+ */
+const ENV_OVERRIDES: Array<[env: string, path: string, parse: EnvParser]> = [
+    ["MCP_TRANSPORT", "transport", (value) => value.toLowerCase()],
+    ["MCP_PORT", "server.port", asNumber],
+    ["PUBLIC_URL", "server.publicUrl", asString],
+    ["DEFAULT_DATASET", "defaultDataset", asString],
+    ["LOG_FILE", "logging.file", asString],
+    ["LOG_LEVEL", "logging.level", asString],
+    ["EMBEDDING_BATCH_SIZE", "embedding.batchSize", asNumber],
+    ["SPARQL_TIMEOUT_SECONDS", "sparql.timeoutSeconds", asNumber],
+    ["SPARQL_REQUESTS_PER_SECOND", "sparql.requestsPerSecond", asNumber],
+    ["SPARQL_BURST", "sparql.burst", asNumber],
+    ["SPARQL_MAX_CONCURRENT", "sparql.maxConcurrent", asNumber],
+    ["SPARQL_MAX_LIMIT", "sparql.maxLimit", asNumber],
+    ["SPARQL_ALLOWED_SERVICES", "sparql.allowedServices", asList],
+    ["SPARQL_MAX_PATH_DEPTH", "sparql.maxPathDepth", asNumber],
+    ["SPARQL_MAX_COMPLEXITY", "sparql.maxComplexity", asNumber],
+    ["SPARQL_MAX_RETRIES", "sparql.maxRetries", asNumber],
+    ["SPARQL_RETRY_BASE_DELAY_MS", "sparql.retryBaseDelayMs", asNumber],
+    ["SPARQL_RETRY_MAX_DELAY_MS", "sparql.retryMaxDelayMs", asNumber],
+    ["QUERY_CACHE_MAX_ENTRIES", "cache.maxEntries", asNumber],
+    ["QUERY_CACHE_TTL_SECONDS", "cache.ttlSeconds", asNumber],
+    ["STORAGE_BACKEND", "storage.backend", asString],
+    ["STORAGE_PATH", "storage.path", asString],
+    ["RETENTION_DAYS", "retention.days", asNumber],
+    ["UNUSED_RETENTION_HOURS", "retention.unusedHours", asNumber],
+    ["RETENTION_SWEEP_MINUTES", "retention.sweepMinutes", asNumber],
+    ["SESSION_IDLE_TIMEOUT_MINUTES", "sessions.idleTimeoutMinutes", asNumber],
+    ["MAX_SESSIONS", "sessions.maxSessions", asNumber],
+    ["EVENT_STORE_MAX_EVENTS", "eventStore.maxEventsPerStream", asNumber],
+    ["EVENT_STORE_MAX_AGE_MINUTES", "eventStore.maxAgeMinutes", asNumber],
+    ["MCP_API_KEYS", "auth.apiKeys", asList],
+    ["LINK_SIGNING_SECRET", "auth.linkSigningSecret", asString],
+    ["LINK_TOKEN_TTL_DAYS", "auth.linkTokenTtlDays", asNumber],
+    ["PUBLIC_PAGES", "auth.publicPages", asBoolean],
+    ["READINESS_PROBE_TIMEOUT_SECONDS", "health.probeTimeoutSeconds", asNumber],
+];
+
+function setPath(target: Record<string, any>, path: string, value: unknown): void {
+    const keys = path.split(".");
+    let node = target;
+    for (const key of keys.slice(0, -1)) {
+        if (typeof node[key] !== "object" || node[key] === null) {
+            node[key] = {};
+        }
+        node = node[key];
+    }
+    node[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Parse CUSTOM_PREFIXES ("foaf:<http://xmlns.com/foaf/0.1/>,schema:<http://schema.org/>").
+ * Malformed entries are reported instead of being skipped.
+ */
+export function parsePrefixList(value: string): { prefixes: Record<string, string>; invalid: string[] } {
+    const prefixes: Record<string, string> = {};
+    const invalid: string[] = [];
+    for (const pair of value.split(",").map((p) => p.trim()).filter(Boolean)) {
+        const match = pair.match(/^([\w-]+):<(.+)>$/);
+        if (match) {
+            prefixes[match[1]] = match[2];
+        } else {
+            invalid.push(pair);
+        }
+    }
+    return { prefixes, invalid };
+}
+
+/**
+ * Apply environment overrides to the raw (unvalidated) config.
+ * Returns the problems found while reading the variables and which path each variable set.
+ */
+function applyEnvOverrides(raw: Record<string, any>, env: NodeJS.ProcessEnv): { errors: string[]; sources: Map<string, string> } {
+    const errors: string[] = [];
+    const sources = new Map<string, string>();
+
+    for (const [name, path, parse] of ENV_OVERRIDES) {
+        const value = env[name];
+        if (value === undefined || value === "") continue;
+        setPath(raw, path, parse(value));
+        sources.set(path, name);
+    }
+
+    if (env.NODE_ENV === "development") {
+        setPath(raw, "logging.console", true);
+    }
+
+    if (env.CUSTOM_PREFIXES) {
+        const { prefixes, invalid } = parsePrefixList(env.CUSTOM_PREFIXES);
+        if (invalid.length > 0) {
+            errors.push(`CUSTOM_PREFIXES: Malformed entries ${invalid.map((p) => `'${p}'`).join(", ")} (expected 'prefix:<namespace>')`);
+        }
+        raw.prefixes = { ...(raw.prefixes ?? {}), ...prefixes };
+        sources.set("prefixes", "CUSTOM_PREFIXES");
+    }
+
+    if (env.DATASETS) {
+        try {
+            raw.datasets = JSON.parse(env.DATASETS);
+            sources.set("datasets", "DATASETS");
+        } catch (error) {
+            errors.push(`DATASETS: Must be a JSON array of datasets (${error instanceof Error ? error.message : error})`);
+        }
+    } else if (env.SPARQL_ENDPOINT || env.SOURCE_TYPE || env.ENDPOINT_ENGINE || env.SEARCH_INDEX || env.SPARQL_TOKEN) {
+        // The single-endpoint variables override the default dataset (created if none is configured)
+        const datasets: any[] = Array.isArray(raw.datasets) ? raw.datasets : [];
+        if (datasets.length === 0) {
+            datasets.push({ name: "default" });
+        }
+        let index = datasets.findIndex((dataset) => dataset?.name === raw.defaultDataset);
+        if (index < 0) index = 0;
+
+        for (const [name, key] of [["SPARQL_ENDPOINT", "endpoint"], ["SOURCE_TYPE", "sourceType"], ["ENDPOINT_ENGINE", "engine"], ["SEARCH_INDEX", "searchIndex"], ["SPARQL_TOKEN", "token"]]) {
+            if (env[name]) {
+                datasets[index] = { ...datasets[index], [key]: env[name] };
+                sources.set(`datasets.${index}.${key}`, name);
+            }
+        }
+        raw.datasets = datasets;
+    }
+
+    return { errors, sources };
+}
+
+/**
+ * Load and validate the configuration.
+ * Precedence: `overrides` (CLI flags) > environment variables > config file > defaults.
+ * Throws an Error listing every invalid value.
+ */
+export function loadConfig(
+    options: { configPath?: string; env?: NodeJS.ProcessEnv; overrides?: Record<string, unknown> } = {}
+): AppConfig {
+    const { configPath, env = process.env, overrides = {} } = options;
+
+    let raw: Record<string, any> = {};
+    if (configPath) {
+        let text: string;
+        try {
+            text = fs.readFileSync(configPath, "utf-8");
+        } catch (error) {
+            throw new Error(`Could not read config file '${configPath}': ${error instanceof Error ? error.message : error}`);
+        }
+        try {
+            raw = JSON.parse(text);
+        } catch (error) {
+            throw new Error(`Config file '${configPath}' is not valid JSON: ${error instanceof Error ? error.message : error}`);
+        }
+        if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+            throw new Error(`Config file '${configPath}' must contain a JSON object`);
+        }
+    }
+
+    const { errors, sources } = applyEnvOverrides(raw, env);
+    for (const [path, value] of Object.entries(overrides)) {
+        if (value !== undefined) setPath(raw, path, value);
+    }
+
+    const result = ConfigSchema.safeParse(raw);
+    if (!result.success) {
+        for (const issue of result.error.issues) {
+            const path = issue.path.join(".");
+            // Point at the environment variable if the value came from one
+            const source = [...sources.entries()].find(([p]) => path === p || path.startsWith(`${p}.`));
+            errors.push(`${path || "(root)"}: ${issue.message}${source ? ` (from ${source[1]})` : ""}`);
+        }
+    }
+
+    if (errors.length > 0) {
+        const origin = configPath ? ` (config file '${configPath}' and environment)` : " (environment)";
+        throw new Error(`Invalid configuration${origin}:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+    }
+    return result.data!;
+}
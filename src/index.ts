@@ -1,63 +1,286 @@
 import "dotenv/config";
 import express, { type Request, type Response } from "express";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { InMemoryEventStore } from "@modelcontextprotocol/sdk/examples/shared/inMemoryEventStore.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import { randomUUID } from "crypto";
+import { parseArgs } from "util";
 import { createServer } from "./server.js";
+import { DatasetRegistry } from "./services/DatasetRegistry.js";
+import { createQueryOptions } from "./services/QueryService.js";
+import { ExplanationService } from "./services/ExplanationService.js";
+import { EmbeddingHelper } from "./services/EmbeddingHelper.js";
+import { PrefixManager } from "./utils/PrefixManager.js";
+import { loadConfig, type AppConfig, type Branding } from "./config.js";
 import Logger from "./utils/logger.js";
 import { CitationDatabase } from "./utils/CitationDatabase.js";
 import { ExplanationDatabase } from "./utils/ExplanationDatabase.js";
-import { generateCitationHtml, generateExplanationHtml } from "./utils/formatting/index.js";
-import type { Quad } from "@rdfjs/types";
+import { createStorage } from "./utils/storage/index.js";
+import { RetentionSweeper } from "./utils/RetentionSweeper.js";
+import { SessionManager, type SessionLimits } from "./utils/SessionManager.js";
+import { StorageEventStore } from "./utils/StorageEventStore.js";
+import { QueryCache } from "./utils/QueryCache.js";
+import { isLocalSource, loadLocalSource } from "./utils/LocalSource.js";
+import { LinkSigner, createPageLinker } from "./utils/LinkSigner.js";
+import { registerPageRoutes } from "./routes/pages.js";
+import { requireApiKey } from "./routes/auth.js";
+import { registerHealthRoutes } from "./routes/health.js";
+import { registerMetricsRoutes } from "./routes/metrics.js";
+import { registerApiRoutes } from "./routes/api.js";
+import { CLI_COMMANDS, runCli } from "./cli.js";
+
+interface StartOptions {
+    port: number;
+    publicUrl: string;
+    citationDb: CitationDatabase;
+    explanationDb: ExplanationDatabase;
+    datasets: DatasetRegistry;
+    branding: Branding;
+    buildServer: () => Promise<McpServer>;
+    sessionLimits: SessionLimits;
+    /** Buffers SSE events for Last-Event-ID resumption (HTTP only) */
+    eventStore: StorageEventStore;
+    /** API keys accepted on /mcp (empty = no authentication) */
+    apiKeys: string[];
+    /** Signs citation/explanation links (undefined = public pages) */
+    linkSigner?: LinkSigner;
+    /** Timeout of each endpoint probe in /readyz */
+    probeTimeoutMs: number;
+    /** SPARQL result cache shared by all datasets */
+    queryCache: QueryCache;
+}
 
 async function main() {
-    // Get configuration from environment variables
-    const sparqlEndpoint: string | undefined = process.env.SPARQL_ENDPOINT;
-    const sparqlToken: string | undefined = process.env.SPARQL_TOKEN;
-    const logFile: string | undefined = process.env.LOG_FILE;
-    const endpointEngine: string = process.env.ENDPOINT_ENGINE || "fallback";
-    const port = process.env.MCP_PORT ? parseInt(process.env.MCP_PORT) : 3000;
-    const publicUrl: string = process.env.PUBLIC_URL || `http://localhost:${port}`;
-
-    // Create shared databases
-    const citationDb = new CitationDatabase();
-    const explanationDb = new ExplanationDatabase();
-
-    // Validate sparqlEndpoint is provided
-    if (!sparqlEndpoint) {
-        throw new Error(
-            "SPARQL endpoint is not defined - set SPARQL_ENDPOINT environment variable."
-        );
+    // `kg-mcp <command> ...` runs a single tool and exits instead of starting the server
+    const argv = process.argv.slice(2);
+    if (argv[0] && CLI_COMMANDS.includes(argv[0])) {
+        process.exit(await runCli(argv));
     }
 
-    // Validate endpointEngine is valid
-    if (!["qlever", "fallback"].includes(endpointEngine.toLowerCase())) {
-        throw new Error(
-            "Invalid ENDPOINT_ENGINE value. Must be 'qlever' or 'fallback'."
-        );
+    const { values: args } = parseArgs({
+        options: {
+            transport: { type: "string" },
+            config: { type: "string" },
+        },
+        allowPositionals: true,
+    });
+
+    // Config file < environment variables < command line flags
+    let config: AppConfig;
+    try {
+        config = loadConfig({
+            configPath: args.config || process.env.MCP_CONFIG,
+            overrides: { transport: args.transport?.toLowerCase() },
+        });
+    } catch (error) {
+        // The logger is not configured yet - report straight to stderr
+        console.error(error instanceof Error ? error.message : String(error));
+        process.exit(1);
     }
 
-    // Initialize logger
+    const { transport: transportMode, server, logging, storage: storageConfig, retention, sessions, auth, branding } = config;
+    const port = server.port;
+    const publicUrl: string = server.publicUrl || `http://localhost:${port}`;
+    const publicPages = auth.publicPages || !auth.linkSigningSecret;
+
+    // Initialize logger (stdout belongs to the protocol in stdio mode)
     Logger.initialize({
-        logFile,
-        logLevel: process.env.LOG_LEVEL || "info",
-        enableConsole: process.env.NODE_ENV === "development",
+        logFile: logging.file,
+        logLevel: logging.level,
+        enableConsole: logging.console,
+        useStderr: transportMode === "stdio",
     });
 
-    Logger.info("Starting MCP Graph server (HTTP Streamable)...", {
-        sparqlEndpoint,
-        endpointEngine,
+    Logger.info(`Starting MCP Graph server (${transportMode === "stdio" ? "stdio" : "HTTP Streamable"})...`, {
+        datasets: config.datasets.map((d) => `${d.name}=${d.endpoint} (${d.engine})`),
         publicUrl,
         port,
+        storageBackend: storageConfig.backend,
+        mcpAuthentication: auth.apiKeys.length > 0,
+        publicPages,
+    });
+
+    PrefixManager.getInstance().registerPrefixes(config.prefixes);
+    const linkSigner = publicPages ? undefined : new LinkSigner(auth.linkSigningSecret!, auth.linkTokenTtlDays);
+
+    // Create shared databases
+    const storage = createStorage(storageConfig.backend, storageConfig.path);
+    const citationDb = new CitationDatabase(storage);
+    const explanationDb = new ExplanationDatabase(storage);
+
+    // Services per dataset, shared by all sessions (as are the result cache and the endpoint limits)
+    const queryCache = new QueryCache(config.cache);
+    const datasets = new DatasetRegistry(
+        config.datasets,
+        config.defaultDataset,
+        new EmbeddingHelper(config.embedding.batchSize),
+        createQueryOptions(config.sparql, queryCache)
+    );
+
+    // Load local RDF files (file:// endpoints) in the background, so the first query doesn't wait for them
+    for (const dataset of config.datasets.filter((d) => isLocalSource(d.endpoint))) {
+        loadLocalSource(dataset.endpoint).catch((error) => Logger.error(`Dataset '${dataset.name}': ${error.message}`));
+    }
+
+    // Detect the endpoints' engines and capabilities in the background (unreachable ones are probed again on first use)
+    void datasets.probe();
+
+    // Registers itself as the step executor, so stored explanations work right after a restart
+    new ExplanationService(explanationDb, datasets);
+
+    // Bounded, storage-backed SSE buffer so clients can resume streams (also across restarts)
+    const eventStore = new StorageEventStore(storage, config.eventStore);
+
+    // Enforce retention of published citations/explanations and drop abandoned sessions' events in the background
+    new RetentionSweeper(citationDb, explanationDb, {
+        retentionDays: retention.days,
+        unusedRetentionHours: retention.unusedHours,
+        sweepIntervalMinutes: retention.sweepMinutes,
+    }, eventStore).start();
+
+    const options: StartOptions = {
+        port,
+        publicUrl,
+        citationDb,
+        explanationDb,
+        datasets,
+        sessionLimits: sessions,
+        eventStore,
+        apiKeys: auth.apiKeys,
+        branding,
+        linkSigner,
+        probeTimeoutMs: config.health.probeTimeoutSeconds * 1000,
+        queryCache,
+        // Create a new MCP server instance (one per session)
+        buildServer: () => createServer(
+            datasets,
+            publicUrl,
+            citationDb,
+            explanationDb,
+            linkSigner
+        ),
+    };
+
+    if (transportMode === "stdio") {
+        await startStdioServer(options);
+    } else {
+        await startHttpServer(options);
+    }
+}
+
+/**
+ * Serve MCP over stdin/stdout. The citation and explanation pages are still
+ * served on a side HTTP port so that 'cite' and 'explain' links keep working.
+ */
+async function startStdioServer(options: StartOptions) {
+    const { port, publicUrl, citationDb, explanationDb, datasets, branding, buildServer, apiKeys, linkSigner, probeTimeoutMs, queryCache } = options;
+
+    const app = express();
+    app.use(express.json());
+    registerPageRoutes(app, citationDb, explanationDb, publicUrl, branding, linkSigner);
+    // A stdio process always serves exactly one session
+    registerHealthRoutes(app, { datasets, citationDb, explanationDb, sessionCount: () => 1, probeTimeoutMs });
+    registerMetricsRoutes(app, { citationDb, explanationDb, queryCache, sessionCount: () => 1, apiKeys });
+
+    const httpServer = app.listen(port, () => {
+        Logger.info(`Citation and explanation pages available on http://localhost:${port}`);
     });
+    httpServer.on("error", (error) => {
+        // Another instance may already own the port - the MCP connection itself still works
+        Logger.warn(`Could not start page server on port ${port}; 'cite' and 'explain' links will not resolve`, { error });
+    });
+
+    // Stdio has no session concept, so scope citations and executions to one per process
+    const transport: Transport = new StdioServerTransport();
+    transport.sessionId = randomUUID();
+
+    const server = await buildServer();
+
+    let shuttingDown = false;
+    const shutdown = async () => {
+        if (shuttingDown) return;
+        shuttingDown = true;
+        Logger.info("Shutting down application...");
+
+        // Drop throwaway citation keys and execution logs; published ones follow the retention policy
+        const sid = transport.sessionId!;
+        citationDb.cleanupSession(sid);
+        explanationDb.cleanupSession(sid);
+
+        try {
+            await server.close();
+        } catch (error) {
+            Logger.info("Error closing stdio transport", { error });
+        }
+
+        httpServer.close(() => {
+            Logger.info("Server shutdown complete");
+            process.exit(0);
+        });
+        // The page server may never have started listening
+        setTimeout(() => process.exit(0), 1000).unref();
+    };
+
+    transport.onclose = () => {
+        Logger.info("Stdio transport closed");
+        void shutdown();
+    };
+
+    await server.connect(transport);
+    Logger.info(`MCP stdio server ready (session ${transport.sessionId})`);
+
+    // The client closing our stdin ends the session
+    process.stdin.on("end", () => void shutdown());
+    process.on("SIGINT", () => void shutdown());
+    process.on("SIGTERM", () => void shutdown());
+}
+
+/**
+ * Serve MCP over Streamable HTTP on /mcp together with the citation and explanation pages.
+ */
+async function startHttpServer(options: StartOptions) {
+    const { port, publicUrl, citationDb, explanationDb, datasets, branding, buildServer, sessionLimits, eventStore, apiKeys, linkSigner, probeTimeoutMs, queryCache } = options;
 
     // Create Express app with JSON middleware
     const app = express();
     app.use(express.json());
 
-    // Map to store transports by session ID
-    const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {};
+    // Transports by session ID, with idle eviction and a session cap
+    const sessions = new SessionManager(sessionLimits, (sid) => {
+        // Drop throwaway citation keys and execution logs for this session;
+        // activated citations and explanations follow the retention policy
+        citationDb.cleanupSession(sid);
+        explanationDb.cleanupSession(sid);
+        eventStore.deleteSession(sid);
+    });
+    sessions.start();
+
+    // Create a transport with its own MCP server instance for a session ID
+    const connectSession = async (sid: string): Promise<StreamableHTTPServerTransport> => {
+        const transport = new StreamableHTTPServerTransport({
+            sessionIdGenerator: () => sid,
+            eventStore: eventStore.forSession(sid), // Enable resumability
+            onsessioninitialized: (id) => {
+                Logger.info(`Session initialized: ${id}`);
+                sessions.add(id, transport);
+            },
+        });
+
+        // Clean up transport when session closes
+        transport.onclose = () => {
+            const closedSid = transport.sessionId;
+            if (closedSid) {
+                Logger.info(`Transport closed for session ${closedSid}`);
+                sessions.remove(closedSid);
+            }
+        };
+
+        const server = await buildServer();
+        await server.connect(transport);
+        return transport;
+    };
 
     // Taken from + adapted: https://github.com/modelcontextprotocol/typescript-sdk/tree/main/examples/server
     // MCP POST endpoint - handles JSON-RPC requests
@@ -65,53 +288,51 @@ async function main() {
         const sessionId = req.headers["mcp-session-id"] as string | undefined;
         try {
             let transport: StreamableHTTPServerTransport;
+            const existingTransport = sessions.get(sessionId, res);
 
-            if (sessionId && transports[sessionId]) {
+            if (existingTransport) {
                 // Reuse existing transport for this session
-                transport = transports[sessionId];
-            } else if (!sessionId && isInitializeRequest(req.body)) {
-                // New initialization request - create new session
-                const eventStore = new InMemoryEventStore();
-
-                transport = new StreamableHTTPServerTransport({
-                    sessionIdGenerator: () => randomUUID(),
-                    eventStore, // Enable resumability
-                    onsessioninitialized: (id) => {
-                        Logger.info(`Session initialized: ${id}`);
-                        transports[id] = transport;
-                    },
-                });
-
-                // Clean up transport when session closes
-                transport.onclose = () => {
-                    const sid = transport.sessionId;
-                    if (sid && transports[sid]) {
-                        Logger.info(`Transport closed for session ${sid}`);
-                        delete transports[sid];
-                        // Clean up citations and explanations for this session
-                        citationDb.cleanupSession(sid);
-                        explanationDb.cleanupSession(sid);
-                    }
-                };
-
-                // Create a new MCP server instance for this session
-                const server = await createServer(
-                    sparqlEndpoint,
-                    endpointEngine.toLowerCase(),
-                    sparqlToken,
-                    publicUrl,
-                    citationDb,
-                    explanationDb
-                );
-
-                // Connect the transport to the server
-                await server.connect(transport);
+                transport = existingTransport;
+            } else if (isInitializeRequest(req.body)) {
+                // Refuse new sessions when at capacity (after evicting idle ones)
+                if (!(await sessions.hasCapacity())) {
+                    Logger.warn(`Rejecting new session: limit of ${sessionLimits.maxSessions} concurrent sessions reached`);
+                    res.status(503).json({
+                        jsonrpc: "2.0",
+                        error: {
+                            code: -32000,
+                            message: "Service Unavailable: Too many active sessions, try again later",
+                        },
+                        id: null,
+                    });
+                    return;
+                }
+
+                // New initialization request - create new session. A client that re-initializes a session
+                // the server no longer knows (e.g. after a restart) keeps its ID if events are still buffered,
+                // so it can replay what it missed with Last-Event-ID.
+                const resumed = sessionId !== undefined && eventStore.hasSession(sessionId);
+                transport = await connectSession(resumed ? sessionId : randomUUID());
+                if (resumed) {
+                    Logger.info(`Session re-initialized: ${sessionId}`);
+                }
 
                 // Handle the initialize request
                 await transport.handleRequest(req, res, req.body);
                 return;
+            } else if (sessionId) {
+                // Unknown or ended session - the client has to initialize again
+                res.status(404).json({
+                    jsonrpc: "2.0",
+                    error: {
+                        code: -32001,
+                        message: "Session not found",
+                    },
+                    id: null,
+                });
+                return;
             } else {
-                // Invalid request - no session ID or not an initialize request
+                // Invalid request - no session ID and not an initialize request
                 res.status(400).json({
                     jsonrpc: "2.0",
                     error: {
@@ -143,8 +364,9 @@ async function main() {
     // MCP GET endpoint - handles SSE (Server-Sent Events) streams
     const mcpGetHandler = async (req: Request, res: Response) => {
         const sessionId = (req.headers["mcp-session-id"] as string)
+        const transport = sessions.get(sessionId, res);
 
-        if (!sessionId || !transports[sessionId]) {
+        if (!transport) {
             res.status(400).send("Invalid or missing session ID");
             return;
         }
@@ -157,15 +379,15 @@ async function main() {
             Logger.info(`Establishing new SSE stream for session ${sessionId}`);
         }
 
-        const transport = transports[sessionId];
         await transport.handleRequest(req, res);
     };
 
     // MCP DELETE endpoint - handles session termination
     const mcpDeleteHandler = async (req: Request, res: Response) => {
         const sessionId = (req.headers["mcp-session-id"] as string)
+        const transport = sessions.get(sessionId);
 
-        if (!sessionId || !transports[sessionId]) {
+        if (!transport) {
             res.status(400).send("Invalid or missing session ID");
             return;
         }
@@ -173,7 +395,6 @@ async function main() {
         Logger.info(`Termination request for session ${sessionId}`);
 
         try {
-            const transport = transports[sessionId];
             await transport.handleRequest(req, res);
         } catch (error) {
             Logger.info("Error handling session termination", { error });
@@ -183,82 +404,31 @@ async function main() {
         }
     };
 
-    // Citation endpoint - returns the citation verification page
-    app.get("/citation/:citationId", async (req: Request, res: Response) => {
-        const citationId = req.params.citationId as string;
-        const citation = citationDb.getCitation(citationId);
-
-        if (!citation) {
-            res.status(404).send("Citation not found");
-            return;
-        }
-
-        try {
-            let html: string;
-            if (citation.type === 'triple') {
-                html = await generateCitationHtml(citation.quads, citationId);
-            } else {
-                html = await generateCitationHtml(
-                    citation.result.quads,
-                    citationId,
-                    {
-                        title: "Query Results",
-                        description: citation.description
-                    }
-                );
-            }
-            res.setHeader("Content-Type", "text/html; charset=utf-8");
-            res.send(html);
-        } catch (e) {
-            Logger.error("Error generating citation HTML", { error: e });
-            res.status(500).send("Error generating citation page");
-        }
-    });
-
-    // Explanation endpoint - returns the interactive explanation page
-    app.get("/explain/:explanationId", async (req: Request, res: Response) => {
-        const explanationId = req.params.explanationId as string;
-        const explanation = explanationDb.getExplanation(explanationId);
+    // Citation and explanation pages
+    registerPageRoutes(app, citationDb, explanationDb, publicUrl, branding, linkSigner);
 
-        if (!explanation) {
-            res.status(404).send("Explanation not found");
-            return;
-        }
+    // Liveness and readiness probes
+    registerHealthRoutes(app, { datasets, citationDb, explanationDb, sessionCount: () => sessions.size, probeTimeoutMs });
 
-        try {
-            const html = await generateExplanationHtml(explanation, publicUrl);
-            res.setHeader("Content-Type", "text/html; charset=utf-8");
-            res.send(html);
-        } catch (e) {
-            Logger.error("Error generating explanation HTML", { error: e });
-            res.status(500).send("Error generating explanation page");
-        }
-    });
-
-    // Explanation step execution endpoint - re-executes a specific step
-    app.post("/explain/:explanationId/execute/:stepIndex", async (req: Request, res: Response) => {
-        const explanationId = req.params.explanationId as string;
-        const stepIndexStr = req.params.stepIndex as string;
-        const stepIndex = parseInt(stepIndexStr, 10);
+    // Register routes (optionally behind API key / bearer token authentication)
+    if (apiKeys.length > 0) {
+        app.use("/mcp", requireApiKey(apiKeys));
+        app.use("/api", requireApiKey(apiKeys));
+    }
 
-        if (isNaN(stepIndex)) {
-            res.status(400).json({ success: false, error: "Invalid step index" });
-            return;
-        }
+    // Prometheus metrics (behind the same keys)
+    registerMetricsRoutes(app, { citationDb, explanationDb, queryCache, sessionCount: () => sessions.size, apiKeys });
 
-        try {
-            const result = await explanationDb.executeStep(explanationId, stepIndex);
-            res.json(result);
-        } catch (e) {
-            Logger.error("Error executing explanation step", { error: e });
-            res.status(500).json({
-                success: false,
-                error: e instanceof Error ? e.message : "Error executing step"
-            });
-        }
+    // REST mirror of the graph tools for non-MCP clients
+    const pageLink = createPageLinker(publicUrl, linkSigner);
+    registerApiRoutes(app, {
+        datasets,
+        citationDb,
+        publicUrl,
+        pageLink: (id) => pageLink("citation", id),
+        secured: apiKeys.length > 0,
     });
 
-    // Register routes
     app.post("/mcp", mcpPostHandler);
     app.get("/mcp", mcpGetHandler);
     app.delete("/mcp", mcpDeleteHandler);
@@ -268,27 +438,26 @@ async function main() {
         Logger.info(`MCP HTTP Server listening on http://localhost:${port}/mcp`);
     });
 
-    // Graceful shutdown
-    process.on("SIGINT", async () => {
+    // Graceful shutdown (Ctrl+C, or SIGTERM from Docker/systemd)
+    let shuttingDown = false;
+    const shutdown = async () => {
+        if (shuttingDown) return;
+        shuttingDown = true;
         Logger.info("Shutting down application...");
 
-        // Close all active transports
-        for (const sessionId in transports) {
-            try {
-                Logger.info(`Closing transport for session ${sessionId}`);
-                await transports[sessionId].close();
-                delete transports[sessionId];
-            } catch (error) {
-                Logger.info(`Error closing transport for session ${sessionId}`, { error });
-            }
-        }
+        // Close all active transports, keeping their state so clients can resume after a restart
+        sessions.stop();
+        await sessions.suspendAll();
+        eventStore.flush();
 
         Logger.info("Closing HTTP server...");
         httpServer.close(() => {
             Logger.info("Server shutdown complete");
             process.exit(0);
         });
-    });
+    };
+    process.on("SIGINT", () => void shutdown());
+    process.on("SIGTERM", () => void shutdown());
 }
 
 main().catch((error) => {
@@ -0,0 +1,308 @@
+import type { Express, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import Logger from "../utils/logger.js";
+import { CitationDatabase } from "../utils/CitationDatabase.js";
+import { DatasetRegistry, type DatasetServices } from "../services/DatasetRegistry.js";
+import { FederationService } from "../services/FederationService.js";
+import { createToolSchemas } from "../schemas.js";
+import { formatInspectionForApi, formatQuadsForApi, formatQueryBuilderResultForApi } from "../utils/formatting/index.js";
+import { toolCalls, toolDuration } from "../utils/metrics.js";
+import { runWithQueryContext } from "../utils/QueryContext.js";
+
+const API_PREFIX = "/api/v1";
+
+interface ApiEndpoint<S extends z.ZodRawShape> {
+    name: string;
+    summary: string;
+    schema: S;
+    /** OpenAPI schema of the 200 response */
+    response: Record<string, unknown>;
+    handler: (input: z.infer<z.ZodObject<S>>, dataset: DatasetServices, sessionId: string) => Promise<unknown>;
+}
+
+/**
+ * Error with an HTTP status for the REST API
+ */
+class ApiError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+const TERM_SCHEMA = {
+    type: "object",
+    properties: {
+        termType: { type: "string", enum: ["NamedNode", "Literal", "BlankNode"] },
+        value: { type: "string" },
+        language: { type: "string" },
+        datatype: { type: "string" },
+    },
+    required: ["termType", "value"],
+};
+
+const TRIPLES_SCHEMA = {
+    type: "array",
+    items: {
+        type: "object",
+        properties: {
+            subject: TERM_SCHEMA,
+            predicate: TERM_SCHEMA,
+            object: TERM_SCHEMA,
+            graph: { type: "string", description: "Named graph of the triple in its dataset" },
+            datasets: { type: "array", items: { type: "string" }, description: "Datasets the triple was found in (federated calls only)" },
+        },
+        required: ["subject", "predicate", "object"],
+    },
+};
+
+const FAILURES_SCHEMA = {
+    type: "array",
+    items: { type: "string" },
+    description: "Datasets of a federated call that failed (the results are incomplete)",
+};
+
+const ERROR_SCHEMA = {
+    type: "object",
+    properties: {
+        error: { type: "string" },
+        issues: { type: "array", items: { type: "object", properties: { path: { type: "string" }, message: { type: "string" } } } },
+    },
+    required: ["error"],
+};
+
+/**
+ * Define the REST endpoints. They mirror the MCP tools, share their zod input
+ * schemas and return structured data instead of Markdown.
+ */
+function createEndpoints(datasets: DatasetRegistry, citationDb: CitationDatabase, pageLink: (id: string) => string) {
+    const schemas = createToolSchemas(datasets);
+    const federation = new FederationService(datasets);
+
+    const search: ApiEndpoint<typeof schemas.search> = {
+        name: "search",
+        summary: "Search for RDF entities using boolean queries",
+        schema: schemas.search,
+        response: {
+            type: "object",
+            properties: {
+                dataset: { type: "string" },
+                results: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: { uri: { type: "string" }, textProp: { type: "string" }, searchText: { type: "string" } },
+                    },
+                },
+            },
+        },
+        handler: async ({ query, limit, offset }, { config, searchService }) => ({
+            dataset: config.name,
+            results: await searchService.searchAll(query.replace(/^'|'$/g, ""), config.endpoint, limit, offset),
+        }),
+    };
+
+    const inspect: ApiEndpoint<typeof schemas.inspect> = {
+        name: "inspect",
+        summary: "Inspect a class, property or entity URI",
+        schema: schemas.inspect,
+        response: {
+            type: "object",
+            properties: {
+                dataset: { type: "string" },
+                result: { type: "object", properties: { type: { type: "string", enum: ["class", "property", "entity", "notFound"] } }, additionalProperties: true },
+            },
+        },
+        handler: async ({ uri, expandProperties }, { config, inspectionService }) => ({
+            dataset: config.name,
+            result: formatInspectionForApi(await inspectionService.inspect(uri, expandProperties)),
+        }),
+    };
+
+    const fact: ApiEndpoint<typeof schemas.fact> = {
+        name: "fact",
+        summary: "Match a triple pattern ('_' as wildcard) and get a citation key",
+        schema: schemas.fact,
+        response: {
+            type: "object",
+            properties: {
+                dataset: { type: "string" },
+                triples: TRIPLES_SCHEMA,
+                citationKey: { type: "string", description: "Pass to /cite to publish a citation page (absent if nothing matched)" },
+                failures: FAILURES_SCHEMA,
+            },
+        },
+        handler: async ({ subject, predicate, object, limit, datasets: names }, { config }, sessionId) => {
+            const targets = federation.resolve(names, config.name);
+            const { value: quads, failures, sources } = await federation.completeTriple(targets, subject, predicate, object, limit);
+            const dataset = targets.map((target) => target.config.name).join(", ");
+            return {
+                dataset,
+                triples: formatQuadsForApi(quads, sources),
+                citationKey: quads.length > 0 ? citationDb.storeCitation(sessionId, quads, undefined, dataset, sources) : undefined,
+                failures,
+            };
+        },
+    };
+
+    const queryBuilder: ApiEndpoint<typeof schemas.queryBuilder> = {
+        name: "query_builder",
+        summary: "Run a structured query with property path filters and get a citation key",
+        schema: schemas.queryBuilder,
+        response: {
+            type: "object",
+            properties: {
+                dataset: { type: "string" },
+                description: { type: "string" },
+                count: { type: "integer" },
+                triples: TRIPLES_SCHEMA,
+                citationKey: { type: "string", description: "Pass to /cite to publish a citation page" },
+                failures: FAILURES_SCHEMA,
+            },
+        },
+        handler: async ({ type, filters, project, limit, datasets: names }, { config }, sessionId) => {
+            const params = { type, filters, project, limit };
+            const targets = federation.resolve(names, config.name);
+            const { value: result, failures, sources } = await federation.queryBuilder(targets, params);
+            const description = await targets[0].queryBuilderService.generateDescription(params);
+            const dataset = targets.map((target) => target.config.name).join(", ");
+            return {
+                dataset,
+                description,
+                ...formatQueryBuilderResultForApi(result, sources),
+                citationKey: citationDb.storeQueryBuilderCitation(sessionId, result, description, undefined, dataset, sources),
+                failures,
+            };
+        },
+    };
+
+    const cite: ApiEndpoint<typeof schemas.cite> = {
+        name: "cite",
+        summary: "Activate a citation key and get its public page URL",
+        schema: schemas.cite,
+        response: { type: "object", properties: { key: { type: "string" }, url: { type: "string" } } },
+        handler: async ({ key }) => {
+            if (!citationDb.activateCitation(key)) {
+                throw new ApiError(404, `Citation key '${key}' not found or invalid.`);
+            }
+            return { key, url: pageLink(key) };
+        },
+    };
+
+    return [search, inspect, fact, queryBuilder, cite] as ApiEndpoint<any>[];
+}
+
+/**
+ * Build the OpenAPI 3 document from the endpoints' zod schemas
+ */
+function createOpenApiDocument(endpoints: ApiEndpoint<any>[], publicUrl: string, secured: boolean): Record<string, unknown> {
+    const paths: Record<string, unknown> = {};
+    for (const endpoint of endpoints) {
+        paths[`${API_PREFIX}/${endpoint.name}`] = {
+            post: {
+                operationId: endpoint.name,
+                summary: endpoint.summary,
+                requestBody: {
+                    required: true,
+                    content: {
+                        "application/json": {
+                            schema: zodToJsonSchema(z.object(endpoint.schema).strict(), { target: "openApi3", $refStrategy: "none" }),
+                        },
+                    },
+                },
+                responses: {
+                    "200": { description: "Success", content: { "application/json": { schema: endpoint.response } } },
+                    "400": { description: "Invalid request", content: { "application/json": { schema: ERROR_SCHEMA } } },
+                    ...(endpoint.name === "cite" ? { "404": { description: "Unknown citation key", content: { "application/json": { schema: ERROR_SCHEMA } } } } : {}),
+                    "500": { description: "Query failed", content: { "application/json": { schema: ERROR_SCHEMA } } },
+                },
+            },
+        };
+    }
+
+    return {
+        openapi: "3.0.3",
+        info: {
+            title: "Knowledge Graph MCP Server REST API",
+            version: "1.0.0",
+            description: "Structured JSON access to the same graph tools that the MCP server exposes.",
+        },
+        servers: [{ url: publicUrl.replace(/\/$/, "") }],
+        paths,
+        ...(secured
+            ? {
+                components: {
+                    securitySchemes: {
+                        bearerAuth: { type: "http", scheme: "bearer" },
+                        apiKey: { type: "apiKey", in: "header", name: "X-API-Key" },
+                    },
+                },
+                security: [{ bearerAuth: [] }, { apiKey: [] }],
+            }
+            : {}),
+    };
+}
+
+export interface ApiOptions {
+    datasets: DatasetRegistry;
+    citationDb: CitationDatabase;
+    publicUrl: string;
+    /** Builds the (signed) citation page URL for a key */
+    pageLink: (id: string) => string;
+    /** Whether /api requires an API key (documented in the OpenAPI document) */
+    secured: boolean;
+}
+
+/**
+ * Register the `/api/v1` REST routes and `/api/v1/openapi.json`.
+ * Each request gets its own citation session; unused citation keys follow the retention policy.
+ */
+export function registerApiRoutes(app: Express, options: ApiOptions): void {
+    const { datasets, citationDb, publicUrl, pageLink, secured } = options;
+    const endpoints = createEndpoints(datasets, citationDb, pageLink);
+    const openApiDocument = createOpenApiDocument(endpoints, publicUrl, secured);
+
+    app.get(`${API_PREFIX}/openapi.json`, (_req: Request, res: Response) => {
+        res.json(openApiDocument);
+    });
+
+    for (const endpoint of endpoints) {
+        const schema = z.object(endpoint.schema).strict();
+
+        app.post(`${API_PREFIX}/${endpoint.name}`, async (req: Request, res: Response) => {
+            const parsed = schema.safeParse(req.body ?? {});
+            if (!parsed.success) {
+                res.status(400).json({
+                    error: "Invalid request",
+                    issues: parsed.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+                });
+                return;
+            }
+
+            // Stop the SPARQL requests when the client disconnects before the response
+            const controller = new AbortController();
+            res.on("close", () => {
+                if (!res.writableFinished) controller.abort();
+            });
+
+            const input = parsed.data as Record<string, any>;
+            try {
+                const result = await toolDuration.time({ tool: endpoint.name }, () =>
+                    runWithQueryContext({ signal: controller.signal }, () =>
+                        endpoint.handler(input, datasets.get(input.dataset), `rest-${randomUUID()}`)
+                    )
+                );
+                toolCalls.inc({ tool: endpoint.name, status: "ok" });
+                res.json(result);
+            } catch (error) {
+                toolCalls.inc({ tool: endpoint.name, status: "error" });
+                const status = error instanceof ApiError ? error.status : 500;
+                if (status === 500) {
+                    Logger.error(`Error in POST ${API_PREFIX}/${endpoint.name}`, { error });
+                }
+                res.status(status).json({ error: error instanceof Error ? error.message : String(error) });
+            }
+        });
+    }
+}
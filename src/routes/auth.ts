@@ -0,0 +1,51 @@
+import type { NextFunction, Request, Response } from "express";
+import { createHash, timingSafeEqual } from "crypto";
+import Logger from "../utils/logger.js";
+
+function digest(value: string): Buffer {
+    return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Extract a credential from `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+function getCredential(req: Request): string | undefined {
+    const authorization = req.headers["authorization"];
+    if (authorization?.startsWith("Bearer ")) {
+        return authorization.slice("Bearer ".length).trim();
+    }
+    const apiKey = req.headers["x-api-key"];
+    return typeof apiKey === "string" ? apiKey.trim() : undefined;
+}
+
+/**
+ * Express middleware requiring one of the configured API keys / bearer tokens.
+ * Responds with a JSON-RPC error so MCP clients can surface it.
+ */
+export function requireApiKey(apiKeys: string[]) {
+    // Compare fixed-length digests in constant time
+    const keyDigests = apiKeys.map(digest);
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        const credential = getCredential(req);
+        const credentialDigest = credential ? digest(credential) : undefined;
+        const authorized = credentialDigest !== undefined
+            && keyDigests.some((keyDigest) => timingSafeEqual(keyDigest, credentialDigest));
+
+        if (!authorized) {
+            Logger.warn(`Rejected unauthenticated ${req.method} ${req.path}`, { ip: req.ip });
+            res.status(401)
+                .setHeader("WWW-Authenticate", "Bearer")
+                .json({
+                    jsonrpc: "2.0",
+                    error: {
+                        code: -32001,
+                        message: "Unauthorized: Provide a valid API key via 'Authorization: Bearer <key>' or 'X-API-Key'",
+                    },
+                    id: null,
+                });
+            return;
+        }
+        next();
+    };
+}
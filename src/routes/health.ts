@@ -0,0 +1,99 @@
+import type { Express, Request, Response } from "express";
+import Logger from "../utils/logger.js";
+import { CitationDatabase } from "../utils/CitationDatabase.js";
+import { ExplanationDatabase } from "../utils/ExplanationDatabase.js";
+import { DatasetRegistry } from "../services/DatasetRegistry.js";
+import type { EndpointProfile } from "../types/index.js";
+
+const PROBE_QUERY = "ASK { ?s ?p ?o }";
+
+export interface HealthOptions {
+    datasets: DatasetRegistry;
+    citationDb: CitationDatabase;
+    explanationDb: ExplanationDatabase;
+    /** Number of connected MCP sessions */
+    sessionCount: () => number;
+    /** Give up on an endpoint probe after this long */
+    probeTimeoutMs: number;
+}
+
+interface EndpointProbe {
+    dataset: string;
+    endpoint: string;
+    reachable: boolean;
+    latencyMs: number;
+    error?: string;
+    /** Detected engine and capabilities (once the endpoint was probed) */
+    profile?: EndpointProfile;
+}
+
+/**
+ * Run the cheap ASK probe against one dataset's endpoint through its QueryService
+ */
+async function probeDataset(datasets: DatasetRegistry, name: string, timeoutMs: number): Promise<EndpointProbe> {
+    const { config, queryService, profiler } = datasets.get(name);
+    const start = Date.now();
+    // Aborting the signal cancels the query's requests, the race answers even if Comunica is slow to notice
+    const signal = AbortSignal.timeout(timeoutMs);
+    const timeout = new Promise<never>((_, reject) => {
+        signal.addEventListener("abort", () => reject(new Error(`Probe timed out after ${timeoutMs}ms`)), { once: true });
+    });
+    try {
+        const probe = queryService.executeAskQuery(PROBE_QUERY, [config.endpoint], signal);
+        probe.catch(() => undefined);
+        await Promise.race([probe, timeout]);
+        return { dataset: name, endpoint: config.endpoint, reachable: true, latencyMs: Date.now() - start, profile: profiler.current() };
+    } catch (error) {
+        return {
+            dataset: name,
+            endpoint: config.endpoint,
+            reachable: false,
+            latencyMs: Date.now() - start,
+            error: error instanceof Error ? error.message : String(error),
+        };
+    }
+}
+
+/**
+ * Register `/healthz` (process liveness) and `/readyz` (SPARQL endpoints reachable).
+ * Both are unauthenticated and report session and storage counts.
+ */
+export function registerHealthRoutes(app: Express, options: HealthOptions): void {
+    const { datasets, citationDb, explanationDb, sessionCount, probeTimeoutMs } = options;
+
+    const stats = () => ({
+        uptimeSeconds: Math.round(process.uptime()),
+        sessions: sessionCount(),
+        citations: citationDb.size,
+        explanations: explanationDb.size,
+    });
+
+    // Liveness - answers as long as the event loop does
+    app.get("/healthz", (_req: Request, res: Response) => {
+        const start = Date.now();
+        const body = stats();
+        res.json({ status: "ok", latencyMs: Date.now() - start, ...body });
+    });
+
+    // Readiness - every configured endpoint must answer the probe
+    app.get("/readyz", async (_req: Request, res: Response) => {
+        const start = Date.now();
+        const endpoints = await Promise.all(
+            datasets.names().map((name) => probeDataset(datasets, name, probeTimeoutMs))
+        );
+        const ready = endpoints.every((probe) => probe.reachable);
+
+        if (!ready) {
+            Logger.warn("Readiness probe failed", {
+                endpoints: endpoints.filter((probe) => !probe.reachable).map((probe) => `${probe.dataset}: ${probe.error}`),
+            });
+        }
+
+        res.status(ready ? 200 : 503).json({
+            status: ready ? "ready" : "unavailable",
+            latencyMs: Date.now() - start,
+            ...stats(),
+            endpoints,
+        });
+    });
+}
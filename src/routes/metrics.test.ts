@@ -0,0 +1,44 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { registerMetricsRoutes } from './metrics.js';
+import { CitationDatabase } from '../utils/CitationDatabase.js';
+import { ExplanationDatabase } from '../utils/ExplanationDatabase.js';
+import { QueryCache } from '../utils/QueryCache.js';
+
+describe('registerMetricsRoutes', () => {
+    const servers: http.Server[] = [];
+
+    // The HTTP server and the stdio side port both serve /metrics through registerMetricsRoutes
+    const serve = async (apiKeys?: string[]): Promise<string> => {
+        const app = express();
+        registerMetricsRoutes(app, {
+            citationDb: new CitationDatabase(),
+            explanationDb: new ExplanationDatabase(),
+            queryCache: new QueryCache({ maxEntries: 10, ttlSeconds: 60 }),
+            sessionCount: () => 1,
+            apiKeys,
+        });
+        const server = app.listen(0, '127.0.0.1');
+        await new Promise((resolve) => server.once('listening', resolve));
+        servers.push(server);
+        return `http://127.0.0.1:${(server.address() as AddressInfo).port}/metrics`;
+    };
+
+    afterEach(async () => {
+        await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+    });
+
+    it('should require one of the API keys when keys are configured', async () => {
+        const url = await serve(['secret']);
+        expect((await fetch(url)).status).toBe(401);
+        expect((await fetch(url, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+
+        const response = await fetch(url, { headers: { 'X-API-Key': 'secret' } });
+        expect(response.status).toBe(200);
+        expect(await response.text()).toContain('kg_mcp_sessions 1');
+
+        expect((await fetch(await serve())).status).toBe(200);
+    });
+});
@@ -0,0 +1,38 @@
+import type { Express, Request, Response } from "express";
+import { CitationDatabase } from "../utils/CitationDatabase.js";
+import { ExplanationDatabase } from "../utils/ExplanationDatabase.js";
+import { QueryCache } from "../utils/QueryCache.js";
+import { metrics } from "../utils/metrics.js";
+import { requireApiKey } from "./auth.js";
+
+export interface MetricsOptions {
+    citationDb: CitationDatabase;
+    explanationDb: ExplanationDatabase;
+    queryCache: QueryCache;
+    /** Number of connected MCP sessions */
+    sessionCount: () => number;
+    /** Keys scrapers must send, like MCP clients (empty: open) */
+    apiKeys?: string[];
+}
+
+/**
+ * Register `/metrics` in the Prometheus text format: per-tool and per-endpoint
+ * counters/histograms plus gauges for sessions, stored pages and the result cache.
+ * Used by both the HTTP and the stdio server, so the route is guarded the same way in both.
+ */
+export function registerMetricsRoutes(app: Express, options: MetricsOptions): void {
+    const { citationDb, explanationDb, queryCache, sessionCount, apiKeys = [] } = options;
+
+    metrics.gauge("kg_mcp_sessions", "Connected MCP sessions", sessionCount);
+    metrics.gauge("kg_mcp_citations", "Stored citations (active and pending)", () => citationDb.size);
+    metrics.gauge("kg_mcp_explanations", "Stored explanations", () => explanationDb.size);
+    metrics.gauge("kg_mcp_query_cache_entries", "Cached SPARQL results", () => queryCache.stats().entries);
+
+    if (apiKeys.length > 0) {
+        app.use("/metrics", requireApiKey(apiKeys));
+    }
+    app.get("/metrics", (_req: Request, res: Response) => {
+        res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+        res.send(metrics.render());
+    });
+}
@@ -0,0 +1,111 @@
+import type { Express, Request, Response } from "express";
+import Logger from "../utils/logger.js";
+import { CitationDatabase } from "../utils/CitationDatabase.js";
+import { ExplanationDatabase } from "../utils/ExplanationDatabase.js";
+import { generateCitationHtml, generateExplanationHtml } from "../utils/formatting/index.js";
+import { LinkSigner, type LinkKind } from "../utils/LinkSigner.js";
+import type { Branding } from "../config.js";
+
+/**
+ * Register the user-facing citation and explanation pages.
+ * Shared by the Streamable HTTP server and the side server used in stdio mode.
+ * With a linkSigner, every page requires the signed `?token=` that 'cite' and 'explain' append.
+ */
+export function registerPageRoutes(
+    app: Express,
+    citationDb: CitationDatabase,
+    explanationDb: ExplanationDatabase,
+    publicUrl: string,
+    branding: Branding,
+    linkSigner?: LinkSigner
+): void {
+    const hasAccess = (req: Request, res: Response, kind: LinkKind, id: string): boolean => {
+        if (!linkSigner) return true;
+        const token = typeof req.query.token === "string" ? req.query.token : undefined;
+        if (linkSigner.verify(kind, id, token)) return true;
+        res.status(403).send("This link is invalid or has expired");
+        return false;
+    };
+
+    // Citation endpoint - returns the citation verification page
+    app.get("/citation/:citationId", async (req: Request, res: Response) => {
+        const citationId = req.params.citationId as string;
+        if (!hasAccess(req, res, "citation", citationId)) return;
+        const citation = citationDb.getCitation(citationId);
+
+        if (!citation) {
+            res.status(404).send("Citation not found");
+            return;
+        }
+
+        try {
+            let html: string;
+            if (citation.type === 'triple') {
+                html = await generateCitationHtml(citation.quads, citationId, { dataset: citation.dataset, quadDatasets: citation.quadDatasets, branding });
+            } else {
+                html = await generateCitationHtml(
+                    citation.result.quads,
+                    citationId,
+                    {
+                        title: "Query Results",
+                        description: citation.description,
+                        dataset: citation.dataset,
+                        quadDatasets: citation.quadDatasets,
+                        branding
+                    }
+                );
+            }
+            res.setHeader("Content-Type", "text/html; charset=utf-8");
+            res.send(html);
+        } catch (e) {
+            Logger.error("Error generating citation HTML", { error: e });
+            res.status(500).send("Error generating citation page");
+        }
+    });
+
+    // Explanation endpoint - returns the interactive explanation page
+    app.get("/explain/:explanationId", async (req: Request, res: Response) => {
+        const explanationId = req.params.explanationId as string;
+        if (!hasAccess(req, res, "explain", explanationId)) return;
+        const explanation = explanationDb.getExplanation(explanationId);
+
+        if (!explanation) {
+            res.status(404).send("Explanation not found");
+            return;
+        }
+
+        try {
+            // Forward the page token so the step buttons can call the execute endpoint
+            const html = await generateExplanationHtml(explanation, publicUrl, req.query.token as string | undefined, branding);
+            res.setHeader("Content-Type", "text/html; charset=utf-8");
+            res.send(html);
+        } catch (e) {
+            Logger.error("Error generating explanation HTML", { error: e });
+            res.status(500).send("Error generating explanation page");
+        }
+    });
+
+    // Explanation step execution endpoint - re-executes a specific step
+    app.post("/explain/:explanationId/execute/:stepIndex", async (req: Request, res: Response) => {
+        const explanationId = req.params.explanationId as string;
+        if (!hasAccess(req, res, "explain", explanationId)) return;
+        const stepIndexStr = req.params.stepIndex as string;
+        const stepIndex = parseInt(stepIndexStr, 10);
+
+        if (isNaN(stepIndex)) {
+            res.status(400).json({ success: false, error: "Invalid step index" });
+            return;
+        }
+
+        try {
+            const result = await explanationDb.executeStep(explanationId, stepIndex);
+            res.json(result);
+        } catch (e) {
+            Logger.error("Error executing explanation step", { error: e });
+            res.status(500).json({
+                success: false,
+                error: e instanceof Error ? e.message : "Error executing step"
+            });
+        }
+    });
+}
@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { DatasetRegistry } from "./services/DatasetRegistry.js";
+
+/**
+ * Input schemas of the graph tools, shared by the MCP tools (src/server.ts)
+ * and the REST API with its OpenAPI document (src/routes/api.ts).
+ */
+export function createToolSchemas(datasets: DatasetRegistry) {
+  // Optional per-call dataset selection, shared by all graph tools
+  const [firstDataset, ...otherDatasets] = datasets.names();
+  const dataset = z
+    .enum([firstDataset, ...otherDatasets])
+    .optional()
+    .describe(`The dataset to run against (default: '${datasets.defaultName}'). Available: ${datasets.names().join(", ")}`);
+  // Federated calls over several datasets (query, fact and query_builder)
+  const federatedDatasets = z
+    .array(z.enum([firstDataset, ...otherDatasets]))
+    .optional()
+    .describe("Run over the union of these datasets instead of one (replaces 'dataset'). Results are merged and deduplicated; cited triples record the dataset they came from.");
+
+  const query = {
+    query: z
+      .string()
+      .describe(
+        "The SPARQL query to execute - must be a valid SPARQL query. Define any PREFIXes yourself if needed."
+      ),
+    language: z
+      .string()
+      .optional()
+      .default("all")
+      .describe(
+        "Language code for filtering results. Use ISO 639-1 two-letter codes like 'en' for English, 'de' for German, 'fr' for French, 'es' for Spanish, etc. Results will include entries with this language tag or language-neutral content. Default: 'all' languages - should be fine in many cases."
+      ),
+    maxRows: z
+      .number()
+      .optional()
+      .default(100)
+      .describe(
+        "Maximum number of rows (or triples for CONSTRUCT/DESCRIBE) to return (default: 100)."
+      ),
+    format: z
+      .enum(["markdown", "csv", "tsv", "json"])
+      .optional()
+      .default("markdown")
+      .describe(
+        "Output format. 'markdown' (default) is a readable table with compressed prefixes. 'csv', 'tsv' and 'json' are the standard SPARQL 1.1 result formats with full IRIs; 'tsv' and 'json' keep term types, datatypes and language tags. CONSTRUCT/DESCRIBE triples come as ?subject ?predicate ?object rows."
+      ),
+    dataset,
+    datasets: federatedDatasets,
+  };
+
+  const fact = {
+    subject: z
+      .string()
+      .describe("The subject URI or '_' as wildcard"),
+    predicate: z
+      .string()
+      .describe("The predicate URI or '_' as wildcard"),
+    object: z
+      .string()
+      .describe("The object URI or '_' as wildcard"),
+    limit: z
+      .number()
+      .optional()
+      .default(100)
+      .describe("Maximum number of triples to return (default: 100)"),
+    dataset,
+    datasets: federatedDatasets,
+  };
+
+  const queryBuilder = {
+    type: z
+      .string()
+      .describe("The RDF class URI to query."),
+    filters: z
+      .array(
+        z.object({
+          path: z
+            .string()
+            .describe("Property path, use `->` between segments. Allowed segments: full URIs (e.g., https://example.org/property) or prefixed names (e.g., schema:email). Example: `https://example.org/relatedTo -> rdfs:label` or `kg:relatedTo -> rdfs:label`."),
+          operator: z
+            .enum(["=", "!=", ">", "<", ">=", "<=", "contains", "search"])
+            .describe("Comparison operator"),
+          value: z
+            .string()
+            .describe("The comparison value"),
+        })
+      )
+      .optional()
+      .describe("Filter conditions applied with AND logic"),
+    project: z
+      .array(z.string())
+      .describe("Property paths to return as columns (e.g., `['rdfs:label', 'kg:year']`). Use `->` between segments. Allowed segments: full URIs or prefixed names."),
+    limit: z
+      .number()
+      .default(100)
+      .describe("Maximum number of results to return (default: 100). Higher limits may cause performance issues or timeouts."),
+    dataset,
+    datasets: federatedDatasets,
+  };
+
+  const search = {
+    query: z
+      .string()
+      .describe(
+        `Boolean search query using a syntactic, substring-matching search algorithm (be more precise). Examples: '"Albert Einstein"' (exact phrase), 'Albert Einstein' (sentences containing both 'Albert' and 'Einstein' <-- PREFER THIS - you will have better results and you can later fine-tune your search), 'Thomas OR Albert' (union), 'physicist AND Nobel' (intersection), '(quantum mechanics) AND Einstein' (grouping), 'Thomas Hinkel' (both words must appear). Quoted strings are exact phrases, unquoted multi-words require all words to appear. PREFER UNQUOTED for better results.`
+      ),
+    limit: z
+      .number()
+      .optional()
+      .default(20)
+      .describe("Maximum number of results to return (default: 20)"),
+    offset: z
+      .number()
+      .optional()
+      .default(0)
+      .describe("Number of results to skip for pagination (default: 0)"),
+    dataset,
+  };
+
+  const inspect = {
+    uri: z
+      .string()
+      .describe(
+        "The URI to inspect - can be a class, property, entity, or any other URI in the knowledge graph"
+      ),
+    expandProperties: z
+      .array(z.string())
+      .optional()
+      .default([])
+      .describe(
+        "Optional array of property URIs to expand and show all values for (only applies to entity inspection, by default only shows first few values)"
+      ),
+    dataset,
+  };
+
+  const cite = {
+    key: z.string().describe("The citation key to activate"),
+  };
+
+  return { query, fact, queryBuilder, search, inspect, cite };
+}
+
+export type ToolSchemas = ReturnType<typeof createToolSchemas>;
@@ -1,16 +1,18 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { z } from "zod";
-import { QueryService } from "./services/QueryService.js";
-import { SearchService } from "./services/SearchService.js";
-import { InspectionService } from "./services/InspectionService.js";
-import { TripleService } from "./services/TripleService.js";
-import { QueryBuilderService } from "./services/QueryBuilderService.js";
-import { ExplanationService } from "./services/ExplanationService.js";
-import { formatQuadsToMarkdown, formatQuadsToTtl, formatInspectionForAgent, formatResourceResultForAgent, formatTriplesForAgent, formatQueryBuilderResultForAgent } from "./utils/formatting/index.js";
-import { EmbeddingHelper } from "./services/EmbeddingHelper.js";
+import { DatasetRegistry, type DatasetServices } from "./services/DatasetRegistry.js";
+import { detectQueryForm, formatSelectResults } from "./services/QueryService.js";
+import { FederationService, formatFailures, formatSources, type QuadSources } from "./services/FederationService.js";
+import { createToolSchemas } from "./schemas.js";
+import { formatQuadsToTtl, formatQuadsToMarkdown, formatInspectionForAgent, formatResourceResultForAgent, formatTriplesForAgent, formatQueryBuilderResultForAgent, formatResults, formatBooleanAsJson, quadsToResultRows, resultVariables, type ResultFormat } from "./utils/formatting/index.js";
 import { CitationDatabase } from "./utils/CitationDatabase.js";
 import { ExplanationDatabase } from "./utils/ExplanationDatabase.js";
 import { Explanation, ExplanationStep } from "./types/index.js";
+import { LinkSigner, createPageLinker } from "./utils/LinkSigner.js";
+import { toolCalls, toolDuration } from "./utils/metrics.js";
+import { runWithQueryContext } from "./utils/QueryContext.js";
+import { resolveSourceType, supportsTextSearch } from "./utils/sourceTypes.js";
+import { describeProfile } from "./utils/endpointProfile.js";
 
 function checkSession(extra: any): string {
   const sessionId = extra?.sessionId;
@@ -21,16 +23,27 @@ function checkSession(extra: any): string {
 }
 
 export async function createServer(
-  sparqlEndpoint: string,
-  endpointEngine: string,
-  sparqlToken: string | undefined,
+  datasets: DatasetRegistry,
   publicUrl: string,
   citationDb: CitationDatabase,
-  explanationDb: ExplanationDatabase
+  explanationDb: ExplanationDatabase,
+  linkSigner?: LinkSigner
 ): Promise<McpServer> {
-  const baseUrl = publicUrl.replace(/\/$/, ""); // Just the trail!
-  const citationBase = `${baseUrl}/citation`;
-  const explainBase = `${baseUrl}/explain`;
+  // User-facing page links carry a signed, expiring token unless pages are public
+  const pageLink = createPageLinker(publicUrl, linkSigner);
+
+  const datasetList = datasets.configs()
+    .map((config) => {
+      const sourceType = resolveSourceType(config.endpoint, config.sourceType);
+      const limitations = supportsTextSearch(sourceType) ? "" : ` [${sourceType} source: no 'search', start from known URIs]`;
+      const profile = datasets.get(config.name).profiler.current();
+      const engine = profile && !profile.error ? ` [${describeProfile(profile)}]` : "";
+      return `- ${config.name}${config.name === datasets.defaultName ? " (default)" : ""}${config.description ? `: ${config.description}` : ""}${engine}${limitations}`;
+    })
+    .join("\n");
+
+  const schemas = createToolSchemas(datasets);
+  const federation = new FederationService(datasets);
 
   const server = new McpServer(
     {
@@ -43,7 +56,7 @@ export async function createServer(
 Usage Information:
 1) [EXPLAINABLE] Use 'search' to find relevant entities, classes, and properties for your topic
 2) [EXPLAINABLE] Use 'inspect' on interesting URIs to understand their relationships and properties
-3) Use 'query' to execute precise SPARQL queries based on your discoveries. NOTE: Raw SPARQL is NOT explainable in the final report.
+3) Use 'query' to execute precise SPARQL queries (SELECT, ASK, CONSTRUCT, DESCRIBE) based on your discoveries. NOTE: Raw SPARQL is NOT explainable in the final report.
 4) [EXPLAINABLE] [CITABLE] Use 'fact' to check facts (simple pattern matching). This tool can be CITED.
 5) [EXPLAINABLE] [CITABLE] Use 'query_builder' to build explainable queries more easily. This tool can be CITED.
 6) Use 'cite' to activate a citation for a fact or query you have verified.
@@ -62,47 +75,49 @@ WORKFLOW FOR COMPLEX QUESTIONS:
 The 'explain' tool creates an interactive page showing your answer with citations and verification steps.
 
 CITATION FORMAT: The 'cite' tool returns Markdown links like [Source](...). Embed these directly in your answer text.
-PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding evidence, as only 'query_builder' is fully explainable in the final interactive report. You may use 'query' for ultra-precise queries.`,
+PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding evidence, as only 'query_builder' is fully explainable in the final interactive report. You may use 'query' for ultra-precise queries.
+
+AVAILABLE DATASETS: Pass 'dataset' to 'search', 'inspect', 'fact', 'query_builder' and 'query' to choose one. Pass 'datasets' to 'fact', 'query_builder' and 'query' to run over several at once. Keys and citations are bound to the dataset they came from, federated triples name their source.
+${datasetList}`,
     }
   );
 
-  // Initialize services and helpers
-  const queryService = new QueryService(sparqlToken);
-  const embeddingService = new EmbeddingHelper();
-  const searchService = new SearchService(queryService, endpointEngine);
-  const inspectionService = new InspectionService(queryService, sparqlEndpoint, embeddingService);
-  const tripleService = new TripleService(queryService, sparqlEndpoint);
-  const queryBuilderService = new QueryBuilderService(queryService, sparqlEndpoint, searchService.getQueryParser());
-
-  // Create ExplanationService - it registers itself with the database
-  const explanationService = new ExplanationService(
-    explanationDb,
-    searchService,
-    inspectionService,
-    tripleService,
-    queryBuilderService,
-    sparqlEndpoint
-  );
+  // The datasets of a call as logged with its execution, so explanation steps replay on the same ones
+  const targetArgs = (targets: DatasetServices[]) => targets.length > 1
+    ? { dataset: undefined, datasets: targets.map((target) => target.config.name) }
+    : { dataset: targets[0].config.name, datasets: undefined };
 
-  // Helper function to standardize tool execution, referencing, and citations
+  // Helper function to standardize tool execution, referencing, and citations.
+  // `request.dataset` must already be resolved so the logged execution replays on the same dataset.
   const handleToolExecution = async (
     toolName: string,
     request: any,
     extra: any,
     executor: () => Promise<{
       text: string;
+      /** The tool reported an error in its text instead of throwing */
+      failed?: boolean;
       citation?: {
         type: "triple" | "collection";
         data: any; // The result/quads
         description?: string; // For query_builder
+        sources?: QuadSources; // Datasets of each quad in federated calls
       };
     }>,
     options: { explainable?: boolean } = { explainable: true }
   ) => {
     const sessionId = checkSession(extra);
 
-    // Execute the specific tool logic
-    const result = await executor();
+    // Execute the specific tool logic (timed and counted per tool).
+    // The client's cancellation signal reaches the SPARQL requests through the query context.
+    let result: Awaited<ReturnType<typeof executor>>;
+    try {
+      result = await toolDuration.time({ tool: toolName }, () => runWithQueryContext({ signal: extra?.signal }, executor));
+    } catch (error) {
+      toolCalls.inc({ tool: toolName, status: "error" });
+      throw error;
+    }
+    toolCalls.inc({ tool: toolName, status: result.failed ? "error" : "ok" });
 
     // Log Execution (Explainable)
     let executionId: string | undefined;
@@ -114,16 +129,19 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
 
     // Log Citation (if provided)
     let citationMsg = "";
+    const citedDataset: string | undefined = request.dataset ?? request.datasets?.join(", ");
     if (result.citation) {
       let citationId;
       if (result.citation.type === "triple") {
-        citationId = citationDb.storeCitation(sessionId, result.citation.data, executionId);
+        citationId = citationDb.storeCitation(sessionId, result.citation.data, executionId, citedDataset, result.citation.sources);
       } else {
         citationId = citationDb.storeQueryBuilderCitation(
           sessionId,
           result.citation.data,
           result.citation.description || "",
-          executionId
+          executionId,
+          citedDataset,
+          result.citation.sources
         );
       }
       citationMsg = `\n\nCitation Key: ${citationId}. Call 'cite' with this key to generate a verification link.`;
@@ -144,90 +162,56 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
     "query",
     {
       description:
-        "Execute a SPARQL query against the Knowledge Graph with language filtering and row limiting. Search for useable properties first to know what to query.",
-      inputSchema: {
-        query: z
-          .string()
-          .describe(
-            "The SPARQL query to execute - must be a valid SPARQL query. Define any PREFIXes yourself if needed."
-          ),
-        language: z
-          .string()
-          .optional()
-          .default("all")
-          .describe(
-            "Language code for filtering results. Use ISO 639-1 two-letter codes like 'en' for English, 'de' for German, 'fr' for French, 'es' for Spanish, etc. Results will include entries with this language tag or language-neutral content. Default: 'all' languages - should be fine in many cases."
-          ),
-        maxRows: z
-          .number()
-          .optional()
-          .default(100)
-          .describe(
-            "Maximum number of rows to return (default: 100)."
-          ),
-      },
+        "[CITABLE] Execute a SPARQL query (SELECT, ASK, CONSTRUCT or DESCRIBE) against the Knowledge Graph with language filtering and row limiting. ASK returns true or false. CONSTRUCT and DESCRIBE return triples and a citation key that can be used with the 'cite' tool. Search for useable properties first to know what to query.",
+      inputSchema: schemas.query,
     },
-    async (request: { query: string; language: string; maxRows?: number }, extra: any) => {
-      return handleToolExecution("query", request, extra, async () => {
-        const { query, language, maxRows = 100 } = request;
-        const res = await queryService.executeQuery(query, [sparqlEndpoint], language, maxRows);
-        return { text: res };
+    async (request: { query: string; language: string; maxRows?: number; format?: ResultFormat; dataset?: string; datasets?: string[] }, extra: any) => {
+      const targets = federation.resolve(request.datasets, request.dataset);
+      return handleToolExecution("query", { ...request, ...targetArgs(targets) }, extra, async () => {
+        const { query, language, maxRows = 100, format = "markdown" } = request;
+        const form = detectQueryForm(query, targets[0].prefixes.getPrefixMap());
+
+        if (form === "ASK") {
+          const { value: answer, failures } = await federation.ask(targets, query);
+          return { text: (format === "json" ? formatBooleanAsJson(answer) : `ASK result: **${answer}**`) + formatFailures(failures) };
+        }
+
+        if (form === "CONSTRUCT" || form === "DESCRIBE") {
+          const { value, failures, sources } = await federation.construct(targets, query);
+          const quads = value.filter((quad) =>
+            language === "all" || quad.object.termType !== "Literal" || !quad.object.language || quad.object.language === language
+          );
+          if (quads.length === 0) {
+            return { text: "No triples found." + formatFailures(failures) };
+          }
+
+          const limited = quads.slice(0, maxRows);
+          if (format !== "markdown") {
+            const rows = quadsToResultRows(limited);
+            return { text: formatResults(format, resultVariables(rows), rows) + formatFailures(failures), citation: { type: "triple", data: limited, sources } };
+          }
+
+          let text = formatQuadsToMarkdown(limited, true, targets[0].prefixes) + formatSources(targets, limited, sources);
+          if (quads.length > maxRows) {
+            text += `\n\n**Note**: Results were limited to ${maxRows} triples. Total triples: ${quads.length}. To see more results, increase the \`maxRows\` parameter.`;
+          }
+          return { text: text + formatFailures(failures), citation: { type: "triple", data: limited, sources } };
+        }
+
+        const variables = targets[0].queryService.selectVariables(query);
+        const { value: rows, failures } = await federation.select(targets, query);
+        return { text: formatSelectResults(rows, variables, language, maxRows, format, targets[0].prefixes) + formatFailures(failures) };
       }, { explainable: false });
     }
   );
 
-  // Shared schemas for tools
-  const FactInputSchema = {
-    subject: z
-      .string()
-      .describe("The subject URI or '_' as wildcard"),
-    predicate: z
-      .string()
-      .describe("The predicate URI or '_' as wildcard"),
-    object: z
-      .string()
-      .describe("The object URI or '_' as wildcard"),
-    limit: z
-      .number()
-      .optional()
-      .default(100)
-      .describe("Maximum number of triples to return (default: 100)"),
-  };
-
-  const QueryBuilderInputSchema = {
-    type: z
-      .string()
-      .describe("The RDF class URI to query."),
-    filters: z
-      .array(
-        z.object({
-          path: z
-            .string()
-            .describe("Property path, use `->` between segments. Allowed segments: full URIs (e.g., https://example.org/property) or prefixed names (e.g., schema:email). Example: `https://example.org/relatedTo -> rdfs:label` or `kg:relatedTo -> rdfs:label`."),
-          operator: z
-            .enum(["=", "!=", ">", "<", ">=", "<=", "contains", "search"])
-            .describe("Comparison operator"),
-          value: z
-            .string()
-            .describe("The comparison value"),
-        })
-      )
-      .optional()
-      .describe("Filter conditions applied with AND logic"),
-    project: z
-      .array(z.string())
-      .describe("Property paths to return as columns (e.g., `['rdfs:label', 'kg:year']`). Use `->` between segments. Allowed segments: full URIs or prefixed names."),
-    limit: z
-      .number()
-      .default(100)
-      .describe("Maximum number of results to return (default: 100). Higher limits may cause performance issues or timeouts."),
-  };
-
   type FactRequest = {
     subject: string;
     predicate: string;
     object: string;
     limit: number;
+    dataset?: string;
+    datasets?: string[];
   }
 
   // Register the verify tool for simple pattern matching
@@ -236,25 +220,27 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
     {
       description:
         "[EXPLAINABLE] [CITABLE] Verify specific relationships or find missing values. Returns a citation key that can be used with the 'cite' tool (to prove your claims). Use wildcard '_' to discover unknown parts of a triple. Use this tool for simple factoid questions or to verify a single or multiple simple claims precisely. Do not use this tool for complex queries that require complex multiple steps or joins.",
-      inputSchema: FactInputSchema,
+      inputSchema: schemas.fact,
     },
     async (request: FactRequest, extra: any) => {
-      return handleToolExecution("fact", request, extra, async () => {
+      const targets = federation.resolve(request.datasets, request.dataset);
+      return handleToolExecution("fact", { ...request, ...targetArgs(targets) }, extra, async () => {
         const { subject, predicate, object, limit } = request;
-        const result = await tripleService.completeTriple(subject, predicate, object, limit);
+        const { value: result, failures, sources } = await federation.completeTriple(targets, subject, predicate, object, limit);
 
         if (result.length === 0) {
-          return { text: "No matching triples found." };
+          return { text: "No matching triples found." + formatFailures(failures) };
         }
 
         // Format as Markdown for the model
-        const md = formatTriplesForAgent(result);
+        const md = formatTriplesForAgent(result, targets[0].prefixes) + formatSources(targets, result, sources) + formatFailures(failures);
 
         return {
           text: md,
           citation: {
             type: "triple",
             data: result,
+            sources,
           },
         };
       });
@@ -267,9 +253,7 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
     {
       description:
         "Activate a citation. Pass the 'key' you received from 'fact' or 'query_builder' to generate a permanent user-facing link that the user can open in their browser and view to verify your claims!",
-      inputSchema: {
-        key: z.string().describe("The citation key to activate")
-      },
+      inputSchema: schemas.cite,
     },
     async (request: { key: string }) => {
       const { key } = request;
@@ -277,7 +261,7 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
 
       if (citationActivated) {
         // reconstruct the link to show it to the agent
-        const citationLink = `${citationBase}/${key}`;
+        const citationLink = pageLink("citation", key);
         return {
           content: [
             {
@@ -304,6 +288,8 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
     filters?: Array<{ path: string; operator: "=" | "!=" | ">" | "<" | ">=" | "<=" | "contains" | "search"; value: string }>;
     project: string[];
     limit: number;
+    dataset?: string;
+    datasets?: string[];
   }
 
   // Register the query_builder tool for structured queries with path traversal
@@ -312,10 +298,11 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
     {
       description:
         `[EXPLAINABLE] [CITABLE] Build and execute structured queries with relationship traversal. Returns a citation key that can be used with the 'cite' tool (to prove your claims). Use this tool to filter lists of entities.\n\nKey Features:\n- Path Traversal: Use \`->\` between segments (e.g., 'kg:relatedTo -> rdfs:label' checks the label of the related entity).\n- Multiple Filters: Combine multiple conditions.\n- JSON Escaping: If a string contains double quotes, escape them per JSON.\n- Prefixes: \`kg:\` is a placeholder prefix; use a prefix that exists in your KG.\n\nExample: "Find items where a related label contains 'Example' and year is after 2020"\n{\n  "type": "kg:Item",\n  "filters": [\n    { "path": "kg:relatedTo -> rdfs:label", "operator": "contains", "value": "Example" },\n    { "path": "kg:year", "operator": ">", "value": "2020" }\n  ],\n  "project": ["rdfs:label", "kg:year", "kg:relatedTo -> rdfs:label"]\n}`,
-      inputSchema: QueryBuilderInputSchema,
+      inputSchema: schemas.queryBuilder,
     },
     async (request: QueryBuilderRequest, extra: any) => {
-      return handleToolExecution("query_builder", request, extra, async () => {
+      const targets = federation.resolve(request.datasets, request.dataset);
+      return handleToolExecution("query_builder", { ...request, ...targetArgs(targets) }, extra, async () => {
         const { type, filters, project, limit } = request;
 
         try {
@@ -326,7 +313,7 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
             value: f.value,
           }));
 
-          const result = await queryBuilderService.executeQuery({
+          const { value: result, failures, sources } = await federation.queryBuilder(targets, {
             type,
             filters: typedFilters,
             project,
@@ -334,10 +321,10 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
           });
 
           // Format result as markdown table
-          const markdown = formatQueryBuilderResultForAgent(result);
+          const markdown = formatQueryBuilderResultForAgent(result, targets[0].prefixes) + formatSources(targets, result.quads, sources) + formatFailures(failures);
 
-          // Generate description for citation
-          const description = await queryBuilderService.generateDescription({
+          // Generate description for citation (labels from the first dataset)
+          const description = await targets[0].queryBuilderService.generateDescription({
             type,
             filters: typedFilters,
             project,
@@ -350,10 +337,11 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
               type: "collection",
               data: result,
               description,
+              sources,
             },
           };
         } catch (error) {
-          return { text: `Error executing query: ${error}` };
+          return { text: `Error executing query: ${error}`, failed: true };
         }
       });
     }
@@ -365,26 +353,11 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
     {
       description:
         `[EXPLAINABLE] Search for RDF entities using boolean queries.`,
-      inputSchema: {
-        query: z
-          .string()
-          .describe(
-            `Boolean search query using a syntactic, substring-matching search algorithm (be more precise). Examples: '"Albert Einstein"' (exact phrase), 'Albert Einstein' (sentences containing both 'Albert' and 'Einstein' <-- PREFER THIS - you will have better results and you can later fine-tune your search), 'Thomas OR Albert' (union), 'physicist AND Nobel' (intersection), '(quantum mechanics) AND Einstein' (grouping), 'Thomas Hinkel' (both words must appear). Quoted strings are exact phrases, unquoted multi-words require all words to appear. PREFER UNQUOTED for better results.`
-          ),
-        limit: z
-          .number()
-          .optional()
-          .default(20)
-          .describe("Maximum number of results to return (default: 20)"),
-        offset: z
-          .number()
-          .optional()
-          .default(0)
-          .describe("Number of results to skip for pagination (default: 0)"),
-      },
+      inputSchema: schemas.search,
     },
-    async (request: { query: string; limit: number; offset: number }, extra: any) => {
-      return handleToolExecution("search", request, extra, async () => {
+    async (request: { query: string; limit: number; offset: number; dataset?: string }, extra: any) => {
+      const { config, searchService, prefixes } = datasets.get(request.dataset);
+      return handleToolExecution("search", { ...request, dataset: config.name }, extra, async () => {
         const { query, limit, offset } = request;
 
         if (!query) {
@@ -396,12 +369,12 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
 
         const results = await searchService.searchAll(
           trimmedQuery,
-          sparqlEndpoint,
+          config.endpoint,
           limit,
           offset
         );
 
-        const response = formatResourceResultForAgent(results);
+        const response = formatResourceResultForAgent(results, prefixes);
         return { text: response };
       });
     }
@@ -413,29 +386,18 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
     {
       description:
         '[EXPLAINABLE] Inspect any URI in the knowledge graph. Shows relationships and properties for classes, properties, or entities.',
-      inputSchema: {
-        uri: z
-          .string()
-          .describe(
-            "The URI to inspect - can be a class, property, entity, or any other URI in the knowledge graph"
-          ),
-        expandProperties: z
-          .array(z.string())
-          .optional()
-          .default([])
-          .describe(
-            "Optional array of property URIs to expand and show all values for (only applies to entity inspection, by default only shows first few values)"
-          ),
-      },
+      inputSchema: schemas.inspect,
     },
     async (
       request: {
         uri: string;
         expandProperties?: string[];
+        dataset?: string;
       },
       extra: any
     ) => {
-      return handleToolExecution("inspect", request, extra, async () => {
+      const { config, inspectionService, prefixes } = datasets.get(request.dataset);
+      return handleToolExecution("inspect", { ...request, dataset: config.name }, extra, async () => {
         const {
           uri,
           expandProperties = [],
@@ -447,7 +409,7 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
             expandProperties
           );
 
-          return { text: formatInspectionForAgent(result) };
+          return { text: formatInspectionForAgent(result, prefixes) };
         } catch (error) {
           throw new Error(`Failed to inspect URI: ${error}`);
         }
@@ -476,6 +438,8 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
             type: 'triple',
             id: c.id,
             sessionId: c.sessionId,
+            dataset: c.dataset,
+            quadDatasets: c.quadDatasets,
             ttl: await formatQuadsToTtl(c.quads),
             createdAt: c.createdAt
           };
@@ -484,8 +448,10 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
             type: 'collection',
             id: c.id,
             sessionId: c.sessionId,
+            dataset: c.dataset,
             description: c.description,
             count: c.result.count,
+            quadDatasets: c.quadDatasets,
             ttl: await formatQuadsToTtl(c.result.quads),
             createdAt: c.createdAt
           };
@@ -613,8 +579,8 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
         };
       }
 
-      const explanationId = explanationService.storeExplanation(sessionId, title, answer, resolvedSteps, found);
-      const explanationLink = `${explainBase}/${explanationId}`;
+      const explanationId = explanationDb.storeExplanation(sessionId, title, answer, resolvedSteps, found);
+      const explanationLink = pageLink("explain", explanationId);
 
       return {
         content: [
@@ -658,7 +624,7 @@ PREFER query_builder: Always prefer 'query_builder' over raw 'query' for finding
           executionKey: s.executionKey,
         })),
         createdAt: e.createdAt,
-        url: `${explainBase}/${e.id}`,
+        url: pageLink("explain", e.id),
       }));
 
       return {
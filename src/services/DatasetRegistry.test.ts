@@ -0,0 +1,39 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { DatasetRegistry } from './DatasetRegistry.js';
+import { PrefixManager } from '../utils/PrefixManager.js';
+
+describe('DatasetRegistry', () => {
+    let dir: string;
+    let datasets: DatasetRegistry;
+
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kg-datasets-'));
+        fs.writeFileSync(path.join(dir, 'org.ttl'), '<http://example.org/alice> <http://example.org/knows> <http://example.org/bob> .\n');
+        fs.writeFileSync(path.join(dir, 'com.ttl'), '<http://example.com/alice> <http://example.com/knows> <http://example.com/carol> .\n');
+        datasets = new DatasetRegistry([
+            { name: 'org', endpoint: pathToFileURL(path.join(dir, 'org.ttl')).href, engine: 'fallback', prefixes: { ex: 'http://example.org/' } },
+            { name: 'com', endpoint: pathToFileURL(path.join(dir, 'com.ttl')).href, engine: 'fallback', prefixes: { ex: 'http://example.com/' } },
+        ]);
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should keep each dataset\'s prefixes to itself', async () => {
+        const query = 'SELECT ?o WHERE { ex:alice ex:knows ?o }';
+        for (const [name, expected] of [['org', 'http://example.org/bob'], ['com', 'http://example.com/carol']]) {
+            const { config, queryService, prefixes } = datasets.get(name);
+            const rows = await queryService.executeQueryRaw(query, [config.endpoint]);
+            expect(rows.map((row) => row.o.value)).toEqual([expected]);
+            expect(prefixes.compressUri(expected)).toBe(`ex:${expected.split('/').pop()}`);
+        }
+
+        expect(PrefixManager.getInstance().getAvailablePrefixes()).not.toContain('ex');
+        expect(datasets.get('org').prefixes.getAvailablePrefixes()).toContain('rdfs');
+    });
+});
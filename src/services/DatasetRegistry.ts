@@ -0,0 +1,119 @@
+import { QueryService, type QueryServiceOptions } from "./QueryService.js";
+import { SearchService } from "./SearchService.js";
+import { InspectionService } from "./InspectionService.js";
+import { TripleService } from "./TripleService.js";
+import { QueryBuilderService } from "./QueryBuilderService.js";
+import { EmbeddingHelper } from "./EmbeddingHelper.js";
+import { PrefixManager } from "../utils/PrefixManager.js";
+import { resolveSourceType } from "../utils/sourceTypes.js";
+import { EndpointProfiler } from "../utils/endpointProfile.js";
+import type { DatasetConfig, EndpointProfile } from "../types/index.js";
+
+/**
+ * The services bound to one dataset
+ */
+export interface DatasetServices {
+    config: DatasetConfig;
+    queryService: QueryService;
+    searchService: SearchService;
+    inspectionService: InspectionService;
+    tripleService: TripleService;
+    queryBuilderService: QueryBuilderService;
+    /** The global prefixes and the dataset's own, for its queries and results */
+    prefixes: PrefixManager;
+    /** Detected engine and capabilities of the endpoint */
+    profiler: EndpointProfiler;
+}
+
+/**
+ * Holds the configured datasets and their services.
+ * Created once in index.ts and shared by all sessions.
+ */
+export class DatasetRegistry {
+    private datasets: Map<string, DatasetServices> = new Map();
+    readonly defaultName: string;
+
+    constructor(
+        configs: DatasetConfig[],
+        defaultName?: string,
+        embeddingHelper: EmbeddingHelper = new EmbeddingHelper(),
+        /** Shared cache, limiter and default timeout, datasets may override TTL, timeout and limits */
+        queryOptions: QueryServiceOptions = {}
+    ) {
+        if (configs.length === 0) {
+            throw new Error("At least one dataset must be configured");
+        }
+
+        for (const config of configs) {
+            if (this.datasets.has(config.name)) {
+                throw new Error(`Duplicate dataset name '${config.name}'`);
+            }
+            const prefixes = PrefixManager.getInstance().extend(config.prefixes);
+            const sourceType = resolveSourceType(config.endpoint, config.sourceType);
+            const queryService = new QueryService(config.token, {
+                ...queryOptions,
+                cacheTtlSeconds: config.cacheTtlSeconds ?? queryOptions.cacheTtlSeconds,
+                timeoutSeconds: config.timeoutSeconds ?? queryOptions.timeoutSeconds,
+                limits: { requestsPerSecond: config.requestsPerSecond, burst: config.burst, maxConcurrent: config.maxConcurrent },
+                sourceType,
+                prefixes,
+                dataset: config.name,
+            });
+            const profiler = new EndpointProfiler(config.endpoint, {
+                token: config.token,
+                sourceType,
+                engine: config.engine,
+                searchIndex: config.searchIndex,
+            });
+            // 'auto' searches with the fallback until the probe picked a backend
+            const searchService = config.engine === "auto"
+                ? new SearchService(queryService, "fallback", sourceType, profiler, config.searchIndex)
+                : new SearchService(queryService, config.engine, sourceType, undefined, config.searchIndex);
+            this.datasets.set(config.name, {
+                config,
+                queryService,
+                searchService,
+                inspectionService: new InspectionService(queryService, config.endpoint, embeddingHelper),
+                tripleService: new TripleService(queryService, config.endpoint),
+                queryBuilderService: new QueryBuilderService(queryService, config.endpoint, searchService.getQueryParser()),
+                prefixes,
+                profiler,
+            });
+        }
+
+        this.defaultName = defaultName ?? configs[0].name;
+        if (!this.datasets.has(this.defaultName)) {
+            throw new Error(`Default dataset '${this.defaultName}' is not configured`);
+        }
+    }
+
+    /**
+     * Get the services for a dataset (the default dataset if no name is given)
+     */
+    get(name?: string): DatasetServices {
+        const datasetName = name || this.defaultName;
+        const dataset = this.datasets.get(datasetName);
+        if (!dataset) {
+            throw new Error(`Unknown dataset '${datasetName}'. Available datasets: ${this.names().join(", ")}`);
+        }
+        return dataset;
+    }
+
+    /**
+     * Probe every dataset's endpoint and switch to the detected search backends
+     */
+    async probe(): Promise<EndpointProfile[]> {
+        return Promise.all(Array.from(this.datasets.values()).map(async ({ searchService, profiler }) => {
+            await searchService.detectBackend();
+            return profiler.get();
+        }));
+    }
+
+    names(): string[] {
+        return Array.from(this.datasets.keys());
+    }
+
+    configs(): DatasetConfig[] {
+        return Array.from(this.datasets.values()).map((dataset) => dataset.config);
+    }
+}
@@ -4,6 +4,8 @@ import Logger from "../utils/logger.js";
 export class EmbeddingHelper {
   private _embedder: FeatureExtractionPipeline | null = null;
 
+  constructor(private batchSize: number = 32) {}
+
   async init(): Promise<void> {
     if (this._embedder) {
       return; // Already initialized
@@ -83,7 +85,7 @@ export class EmbeddingHelper {
       }
     });
 
-    const batchSize = parseInt(process.env.EMBEDDING_BATCH_SIZE || "32");
+    const batchSize = this.batchSize;
 
     for (let i = 0; i < formattedTexts.length; i += batchSize) {
       const batch = formattedTexts.slice(i, i + batchSize);
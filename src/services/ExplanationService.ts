@@ -1,9 +1,7 @@
-import { QueryService } from "./QueryService.js";
-import { SearchService } from "./SearchService.js";
-import { InspectionService } from "./InspectionService.js";
-import { TripleService } from "./TripleService.js";
-import { QueryBuilderService } from "./QueryBuilderService.js";
+import { DatasetRegistry } from "./DatasetRegistry.js";
+import { FederationService, formatFailures } from "./FederationService.js";
 import { ExplanationDatabase } from "../utils/ExplanationDatabase.js";
+import { withoutQueryCache } from "../utils/QueryCache.js";
 import type {
     ExplanationStep,
     StepExecutionResult,
@@ -14,17 +12,17 @@ import { formatInspectionForUser, formatResourceResultForUser, formatTriplesForU
 /**
  * Service for executing explanation steps.
  * Uses ExplanationDatabase for storage and implements StepExecutor for execution.
- * Created internally in createServer(), registers itself with the database.
+ * Created once in index.ts (so stored explanations can be re-executed before any
+ * session connects), registers itself with the database.
  */
 export class ExplanationService implements StepExecutor {
+    private federation: FederationService;
+
     constructor(
         private explanationDb: ExplanationDatabase,
-        private searchService: SearchService,
-        private inspectionService: InspectionService,
-        private tripleService: TripleService,
-        private queryBuilderService: QueryBuilderService,
-        private sparqlEndpoint: string
+        private datasets: DatasetRegistry
     ) {
+        this.federation = new FederationService(datasets);
         // Register this service as the executor for the database
         this.explanationDb.setExecutor(this);
     }
@@ -61,7 +59,8 @@ export class ExplanationService implements StepExecutor {
         const step = explanation.steps[stepIndex];
 
         try {
-            const result = await this.executeToolCall(step.toolName, step.toolParams);
+            // Users re-run steps to verify them, so always ask the endpoint
+            const result = await withoutQueryCache(() => this.executeToolCall(step.toolName, step.toolParams));
             return { success: true, result };
         } catch (error) {
             return {
@@ -72,17 +71,23 @@ export class ExplanationService implements StepExecutor {
     }
 
     /**
-     * Execute a tool call with the given parameters
+     * Execute a tool call with the given parameters.
+     * Steps run against the dataset recorded with the execution (older steps use the default),
+     * federated steps against all of their datasets.
      */
     private async executeToolCall(
         toolName: ExplanationStep["toolName"],
         params: Record<string, any>
     ): Promise<string> {
+        const { config, searchService, inspectionService, tripleService, queryBuilderService } =
+            this.datasets.get(params.datasets?.[0] ?? params.dataset);
+        const targets = this.federation.resolve(params.datasets, params.dataset);
+
         switch (toolName) {
             case "search": {
-                const results = await this.searchService.searchAll(
+                const results = await searchService.searchAll(
                     params.query,
-                    this.sparqlEndpoint,
+                    config.endpoint,
                     params.limit || 20,
                     params.offset || 0
                 );
@@ -90,7 +95,7 @@ export class ExplanationService implements StepExecutor {
             }
 
             case "inspect": {
-                const result = await this.inspectionService.inspect(
+                const result = await inspectionService.inspect(
                     params.uri,
                     params.expandProperties || []
                 );
@@ -99,33 +104,34 @@ export class ExplanationService implements StepExecutor {
             }
 
             case "fact": {
-                const quads = await this.tripleService.completeTriple(
+                const { value: quads, failures } = await this.federation.completeTriple(
+                    targets,
                     params.subject,
                     params.predicate,
                     params.object,
                     params.limit || 100
                 );
                 if (quads.length === 0) {
-                    return "No matching triples found.";
+                    return "No matching triples found." + formatFailures(failures);
                 }
                 // Format as user-friendly text
-                return formatTriplesForUser(quads);
+                return formatTriplesForUser(quads) + formatFailures(failures);
             }
 
             case "query_builder": {
-                const result = await this.queryBuilderService.executeQuery({
+                const { value: result, failures } = await this.federation.queryBuilder(targets, {
                     type: params.type,
                     filters: params.filters,
                     project: params.project,
                     limit: params.limit || 100,
                 });
-                const description = await this.queryBuilderService.generateDescription({
+                const description = await queryBuilderService.generateDescription({
                     type: params.type,
                     filters: params.filters,
                     project: params.project,
                     limit: params.limit,
                 });
-                return `${description}\n\n${formatQueryBuilderResultForUser(result)}`;
+                return `${description}\n\n${formatQueryBuilderResultForUser(result)}${formatFailures(failures)}`;
             }
 
             default:
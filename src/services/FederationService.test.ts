@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { DatasetRegistry } from './DatasetRegistry.js';
+import { FederationService, formatFailures, formatSources } from './FederationService.js';
+import { CitationDatabase } from '../utils/CitationDatabase.js';
+import { FileStorage } from '../utils/storage/index.js';
+import { generateCitationHtml } from '../utils/formatting/html.js';
+
+describe('FederationService', () => {
+    let dir: string;
+    let datasets: DatasetRegistry;
+    let federation: FederationService;
+    let first: string;
+    let second: string;
+
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kg-federation-'));
+        fs.writeFileSync(path.join(dir, 'first.ttl'), '@prefix ex: <http://example.org/> .\nex:alice ex:knows ex:bob , ex:carol .\n');
+        fs.writeFileSync(path.join(dir, 'second.ttl'), '@prefix ex: <http://example.org/> .\nex:alice ex:knows ex:bob , ex:dave .\n');
+        first = pathToFileURL(path.join(dir, 'first.ttl')).href;
+        second = pathToFileURL(path.join(dir, 'second.ttl')).href;
+        datasets = new DatasetRegistry([
+            { name: 'first', endpoint: first, engine: 'fallback' },
+            { name: 'second', endpoint: second, engine: 'fallback' },
+            { name: 'missing', endpoint: pathToFileURL(path.join(dir, 'missing.ttl')).href, engine: 'fallback' },
+        ]);
+        federation = new FederationService(datasets);
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should merge triples and attribute them to their dataset', async () => {
+        const targets = federation.resolve(['first', 'second', 'first']);
+        expect(targets.map((target) => target.config.name)).toEqual(['first', 'second']);
+
+        const { value: quads, failures, sources } = await federation.completeTriple(targets, 'http://example.org/alice', 'http://example.org/knows', '_');
+        expect(failures).toEqual([]);
+        // Triples keep their own graph, a triple found in both datasets is listed once
+        expect(quads.every((quad) => quad.graph.termType === 'DefaultGraph')).toBe(true);
+        expect(quads.map((quad) => `${quad.object.value} ${sources.get(quad)!.join(',')}`).sort()).toEqual([
+            'http://example.org/bob first,second',
+            'http://example.org/carol first',
+            'http://example.org/dave second',
+        ]);
+        expect(formatSources(targets, quads, sources)).toBe('\n\n**Sources**: first (2 triples), second (2 triples)');
+
+        const { value: rows } = await federation.select(targets, 'SELECT ?o WHERE { ?s <http://example.org/knows> ?o }');
+        expect(rows.map((row) => row.o.value).sort()).toEqual(['http://example.org/bob', 'http://example.org/carol', 'http://example.org/dave']);
+    });
+
+    it('should keep the datasets of every cited triple across a reload', async () => {
+        const targets = federation.resolve(['first', 'second']);
+        const { value: quads, sources } = await federation.completeTriple(targets, 'http://example.org/alice', 'http://example.org/knows', '_');
+        const storage = path.join(dir, 'storage');
+        const id = new CitationDatabase(new FileStorage(storage)).storeCitation('s1', quads, undefined, 'first, second', sources);
+
+        const citation = new CitationDatabase(new FileStorage(storage)).getCitation(id);
+        if (citation?.type !== 'triple') throw new Error('The triple citation was not reloaded');
+        const cited = citation.quads.map((quad, index) => `${quad.object.value} ${citation.quadDatasets![index].join(',')}`);
+        expect(cited.sort()).toEqual([
+            'http://example.org/bob first,second',
+            'http://example.org/carol first',
+            'http://example.org/dave second',
+        ]);
+
+        const html = await generateCitationHtml(citation.quads, id, { dataset: citation.dataset, quadDatasets: citation.quadDatasets });
+        expect(html).toContain('<span class="value-source" title="Dataset">first, second</span>');
+    });
+
+        it('should report failed datasets and only fail if all of them do', async () => {
+        const { value, failures } = await federation.ask(federation.resolve(['first', 'missing']), 'ASK { ?s <http://example.org/knows> <http://example.org/carol> }');
+        expect(value).toBe(true);
+        expect(failures).toEqual([expect.stringMatching(/^missing: Cannot read RDF file/)]);
+        expect(formatFailures(failures)).toMatch(/Some datasets failed, the results are incomplete:\n- missing: /);
+
+        await expect(federation.ask(federation.resolve(['missing']), 'ASK { ?s ?p ?o }')).rejects.toThrow(/Cannot read RDF file/);
+        expect(federation.resolve(undefined, 'second')[0].config.name).toBe('second');
+    });
+});
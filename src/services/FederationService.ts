@@ -0,0 +1,161 @@
+import type { Quad, Term } from "@rdfjs/types";
+import { DatasetRegistry, type DatasetServices } from "./DatasetRegistry.js";
+import type { QueryBuilderParams, QueryBuilderResult } from "../types/index.js";
+import type { ResultRow } from "../utils/formatting/index.js";
+
+/**
+ * Result of a call over several datasets. Datasets that failed are listed
+ * in `failures` (the call only fails if every dataset does).
+ */
+export interface Federated<T> {
+    value: T;
+    failures: string[];
+}
+
+/** Names of the datasets each quad of a federated call was found in (empty for a single dataset) */
+export type QuadSources = Map<Quad, string[]>;
+
+export interface FederatedQuads<T> extends Federated<T> {
+    sources: QuadSources;
+}
+
+function termKey(term: Term): string {
+    if (term.termType === "Literal") {
+        return `L|${term.value}|${term.language}|${term.datatype.value}`;
+    }
+    return `${term.termType}|${term.value}`;
+}
+
+/**
+ * Runs the graph tools over the union of several datasets. Every dataset is queried through its own
+ * services (token, source type, search engine, limits), the results are merged and deduplicated.
+ * Quads keep their own graph, the datasets they came from are listed in `sources`.
+ */
+export class FederationService {
+    constructor(private datasets: DatasetRegistry) {}
+
+    /**
+     * The datasets of a tool call: all of `names` if given, else `name` (or the default dataset)
+     */
+    resolve(names: string[] | undefined, name?: string): DatasetServices[] {
+        if (!names || names.length === 0) {
+            return [this.datasets.get(name)];
+        }
+        return [...new Set(names)].map((datasetName) => this.datasets.get(datasetName));
+    }
+
+    /**
+     * Run on every dataset in parallel. A single dataset fails as usual.
+     */
+    private async fanOut<T>(targets: DatasetServices[], run: (dataset: DatasetServices) => Promise<T>): Promise<Federated<Array<{ dataset: DatasetServices; value: T }>>> {
+        if (targets.length === 1) {
+            return { value: [{ dataset: targets[0], value: await run(targets[0]) }], failures: [] };
+        }
+        const settled = await Promise.allSettled(targets.map(run));
+        const results: Array<{ dataset: DatasetServices; value: T }> = [];
+        const failures: string[] = [];
+        settled.forEach((outcome, index) => {
+            const name = targets[index].config.name;
+            if (outcome.status === "fulfilled") {
+                results.push({ dataset: targets[index], value: outcome.value });
+            } else {
+                failures.push(`${name}: ${outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)}`);
+            }
+        });
+        if (results.length === 0) {
+            throw new Error(`All datasets failed:\n${failures.map((failure) => `- ${failure}`).join("\n")}`);
+        }
+        return { value: results, failures };
+    }
+
+    /**
+     * Merge the quads of several datasets. A quad found in several datasets is kept once,
+     * with the names of all of them in `sources`.
+     */
+    private mergeQuads(targets: DatasetServices[], results: Array<{ dataset: DatasetServices; value: Quad[] }>): { quads: Quad[]; sources: QuadSources } {
+        const sources: QuadSources = new Map();
+        if (targets.length === 1) {
+            return { quads: results[0].value, sources };
+        }
+        const merged = new Map<string, Quad>();
+        for (const { dataset, value } of results) {
+            for (const quad of value) {
+                const key = [quad.subject, quad.predicate, quad.object, quad.graph].map(termKey).join(" ");
+                const first = merged.get(key);
+                if (first) {
+                    sources.get(first)!.push(dataset.config.name);
+                } else {
+                    merged.set(key, quad);
+                    sources.set(quad, [dataset.config.name]);
+                }
+            }
+        }
+        return { quads: [...merged.values()], sources };
+    }
+
+    async select(targets: DatasetServices[], query: string): Promise<Federated<ResultRow[]>> {
+        const { value, failures } = await this.fanOut(targets, ({ config, queryService }) =>
+            queryService.executeQueryRaw(query, [config.endpoint])
+        );
+        const seen = new Set<string>();
+        const rows = value.flatMap((result) => result.value as ResultRow[]).filter((row) => {
+            const key = JSON.stringify(row);
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+        return { value: rows, failures };
+    }
+
+    async construct(targets: DatasetServices[], query: string): Promise<FederatedQuads<Quad[]>> {
+        const { value, failures } = await this.fanOut(targets, ({ config, queryService }) =>
+            queryService.executeConstructQuery(query, [config.endpoint])
+        );
+        const { quads, sources } = this.mergeQuads(targets, value);
+        return { value: quads, failures, sources };
+    }
+
+    /**
+     * True if the pattern matches in any of the datasets
+     */
+    async ask(targets: DatasetServices[], query: string): Promise<Federated<boolean>> {
+        const { value, failures } = await this.fanOut(targets, ({ config, queryService }) =>
+            queryService.executeBooleanQuery(query, [config.endpoint])
+        );
+        return { value: value.some((result) => result.value), failures };
+    }
+
+    async completeTriple(targets: DatasetServices[], subject: string, predicate: string, object: string, limit?: number): Promise<FederatedQuads<Quad[]>> {
+        const { value, failures } = await this.fanOut(targets, ({ tripleService }) =>
+            tripleService.completeTriple(subject, predicate, object, limit)
+        );
+        const { quads, sources } = this.mergeQuads(targets, value);
+        return { value: quads, failures, sources };
+    }
+
+    async queryBuilder(targets: DatasetServices[], params: QueryBuilderParams): Promise<FederatedQuads<QueryBuilderResult>> {
+        const { value, failures } = await this.fanOut(targets, ({ queryBuilderService }) => queryBuilderService.executeQuery(params));
+        const { quads, sources } = this.mergeQuads(targets, value.map(({ dataset, value: result }) => ({ dataset, value: result.quads })));
+        return { value: { quads, count: quads.length, query: params }, failures, sources };
+    }
+}
+
+/**
+ * Note on the datasets that failed in a federated call, appended to the tool output
+ */
+export function formatFailures(failures: string[]): string {
+    if (failures.length === 0) return "";
+    return `\n\n**Note**: Some datasets failed, the results are incomplete:\n${failures.map((failure) => `- ${failure}`).join("\n")}`;
+}
+
+/**
+ * Which dataset the quads of a federated call came from, appended to the tool output
+ */
+export function formatSources(targets: DatasetServices[], quads: Quad[], sources: QuadSources): string {
+    if (targets.length === 1) return "";
+    const counts = targets.map(({ config }) => {
+        const count = quads.filter((quad) => sources.get(quad)?.includes(config.name)).length;
+        return `${config.name} (${count} triple${count === 1 ? "" : "s"})`;
+    });
+    return `\n\n**Sources**: ${counts.join(", ")}`;
+}
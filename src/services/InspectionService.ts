@@ -112,7 +112,7 @@ export class InspectionService {
         OPTIONAL { ?propDomain rdfs:label ?propDomainLabel }
       }`;
 
-    const bindings = await this.queryService.executeQueryRaw(query, [this.sparqlEndpoint]);
+    const bindings = await this.queryService.executeQueryRaw(query, [this.sparqlEndpoint], { trusted: true });
 
     // Check if the response contains results
     if (!bindings || bindings.length === 0) {
@@ -163,7 +163,7 @@ export class InspectionService {
       `;
       const hierarchyBindings = await this.queryService.executeQueryRaw(hierarchyQuery, [
         this.sparqlEndpoint,
-      ]);
+      ], { trusted: true });
       if (
         hierarchyBindings &&
         hierarchyBindings.length > 0 &&
@@ -185,7 +185,7 @@ export class InspectionService {
       `;
       const hierarchyBindings = await this.queryService.executeQueryRaw(hierarchyQuery, [
         this.sparqlEndpoint,
-      ]);
+      ], { trusted: true });
       if (
         hierarchyBindings &&
         hierarchyBindings.length > 0 &&
@@ -254,7 +254,7 @@ export class InspectionService {
       }
     } LIMIT 100000`;
 
-    const bindings = await this.queryService.executeQueryRaw(query, [this.sparqlEndpoint]);
+    const bindings = await this.queryService.executeQueryRaw(query, [this.sparqlEndpoint], { trusted: true });
 
     // Process results
     for (const binding of bindings) {
@@ -333,7 +333,7 @@ export class InspectionService {
       ORDER BY ?direction ?property ?value
     `;
 
-    const bindings = await this.queryService.executeQueryRaw(query, [this.sparqlEndpoint]);
+    const bindings = await this.queryService.executeQueryRaw(query, [this.sparqlEndpoint], { trusted: true });
 
     if (!bindings || bindings.length === 0) {
       return null;
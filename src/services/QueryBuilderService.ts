@@ -50,7 +50,7 @@ export class QueryBuilderService {
 
         for (let i = 0; i < segments.length; i++) {
             const segment = segments[i];
-            const propertyUri = resolvePropertyToUri(segment);
+            const propertyUri = resolvePropertyToUri(segment, this.queryService.prefixes);
             const formattedProperty = propertyUri;
 
             const isLast = i === segments.length - 1;
@@ -179,7 +179,7 @@ export class QueryBuilderService {
             LIMIT ${limit}
         `;
 
-        const quads = await this.queryService.executeConstructQuery(sparqlQuery, [this.sparqlEndpoint]);
+        const quads = await this.queryService.executeConstructQuery(sparqlQuery, [this.sparqlEndpoint], { trusted: true });
 
         return {
             quads,
@@ -202,7 +202,7 @@ export class QueryBuilderService {
             const segments = this.splitPropertyPath(path);
             const labels = await Promise.all(segments.map(async (segment) => {
                 try {
-                    const uri = resolvePropertyToUri(segment);
+                    const uri = resolvePropertyToUri(segment, this.queryService.prefixes);
                     const cleanUri = uri.replace(/^<|>$/g, '');
                     return await resolveLabel(cleanUri, this.queryService, this.sparqlEndpoint);
                 } catch {
@@ -219,7 +219,7 @@ export class QueryBuilderService {
                 const segments = this.splitPropertyPath(filter.path);
                 const readablePath = await Promise.all(segments.map(async (segment) => {
                     try {
-                        const uri = resolvePropertyToUri(segment);
+                        const uri = resolvePropertyToUri(segment, this.queryService.prefixes);
                         const cleanUri = uri.replace(/^<|>$/g, '');
                         return await resolveLabel(cleanUri, this.queryService, this.sparqlEndpoint);
                     } catch {
@@ -1,5 +1,5 @@
 import { beforeAll, test, expect } from 'vitest';
-import { QueryService } from '../../dist/services/QueryService.js';
+import { QueryService, formatSelectResults } from '../../dist/services/QueryService.js';
 
 let queryService;
 
@@ -9,6 +9,12 @@ beforeAll(async () => {
     queryService = new QueryService();
 }, 30000);
 
+// The SELECT path of the 'query' tool
+async function executeQuery(query, sources, language, maxRows) {
+    const rows = await queryService.executeQueryRaw(query, sources);
+    return formatSelectResults(rows, queryService.selectVariables(query), language, maxRows, "markdown", queryService.prefixes);
+}
+
 async function testDistinctAddition() {
     // Test with a query that would normally return duplicates
     // This query intentionally creates duplicates by forcing ?s = ?s2
@@ -23,7 +29,7 @@ async function testDistinctAddition() {
 
     try {
         // Execute the query with our automatic DISTINCT addition
-        const result = await queryService.executeQuery(duplicateQuery, [SPARQL_EP], "en", 100);
+        const result = await executeQuery(duplicateQuery, [SPARQL_EP], "en", 100);
 
         expect(result).toBeDefined();
         expect(typeof result).toBe('string');
@@ -47,7 +53,7 @@ async function testSelectWithExistingDistinct() {
     const distinctQuery = "SELECT DISTINCT ?s ?p WHERE { ?s ?p ?o } LIMIT 3";
 
     try {
-        const result = await queryService.executeQuery(distinctQuery, [SPARQL_EP], "en", 100);
+        const result = await executeQuery(distinctQuery, [SPARQL_EP], "en", 100);
 
         expect(result).toBeDefined();
         expect(typeof result).toBe('string');
@@ -66,7 +72,7 @@ async function testNonSelectQuery() {
     console.log("Query:", askQuery);
 
     try {
-        const result = await queryService.executeQuery(askQuery, [SPARQL_EP], "en", 100);
+        const result = await queryService.executeBooleanQuery(askQuery, [SPARQL_EP]);
 
         expect(result).toBeDefined();
         console.log("ASK query executed, result:", result);
@@ -78,7 +84,7 @@ async function testNonSelectQuery() {
 
 async function testQueryServiceInstantiation() {
     expect(queryService).toBeDefined();
-    expect(typeof queryService.executeQuery).toBe('function');
+    expect(typeof queryService.executeQueryRaw).toBe('function');
     console.log("QueryService instantiated successfully");
 }
 
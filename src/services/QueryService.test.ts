@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { AddressInfo } from 'net';
+import { QueryService, detectQueryForm, formatSelectResults } from './QueryService.js';
+import type { ResultFormat } from '../utils/formatting/index.js';
+import { runWithQueryContext } from '../utils/QueryContext.js';
+import { EndpointLimiter } from '../utils/EndpointLimiter.js';
+
+describe('QueryService timeouts and cancellation', () => {
+    let server: http.Server;
+    let endpoint: string;
+    let closedRequests = 0;
+
+    beforeAll(async () => {
+        // An endpoint that never answers
+        server = http.createServer((req) => {
+            req.on('close', () => closedRequests++);
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/sparql`;
+    });
+
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should abort a query after the timeout with a hint to narrow it', async () => {
+        const queryService = new QueryService(undefined, { timeoutSeconds: 0.3 });
+        const before = closedRequests;
+
+        await expect(queryService.executeQueryRaw('SELECT ?s WHERE { ?s ?p ?o }', [endpoint]))
+            .rejects.toThrow(/timed out after 0.3s. Narrow it down/);
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(closedRequests).toBeGreaterThan(before);
+    });
+
+    it('should stop the HTTP request when the caller cancels', async () => {
+        const queryService = new QueryService();
+        const controller = new AbortController();
+        const before = closedRequests;
+
+        const query = runWithQueryContext({ signal: controller.signal }, () =>
+            queryService.executeConstructQuery('CONSTRUCT WHERE { ?s ?p ?o }', [endpoint])
+        );
+        setTimeout(() => controller.abort(), 300);
+
+        await expect(query).rejects.toThrow('The SPARQL query was cancelled.');
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        expect(closedRequests).toBeGreaterThan(before);
+    });
+});
+
+describe('QueryService retries', () => {
+    let server: http.Server;
+    let endpoint: string;
+    /** Statuses to answer with before the real result */
+    let failures: number[] = [];
+    let requests = 0;
+
+    const retry = { maxRetries: 3, baseDelayMs: 10, maxDelayMs: 100 };
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            requests++;
+            const status = failures.shift();
+            if (status) {
+                res.writeHead(status, { 'Retry-After': '0' });
+                res.end('Service unavailable');
+                return;
+            }
+            res.setHeader('Content-Type', 'application/sparql-results+json');
+            res.end(JSON.stringify({
+                head: { vars: ['s'] },
+                results: { bindings: [{ s: { type: 'uri', value: 'http://example.org/a' } }] },
+            }));
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/sparql`;
+    });
+
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should retry transient failures', async () => {
+        const queryService = new QueryService(undefined, { retry });
+        failures = [503, 429];
+        requests = 0;
+
+        const results = await queryService.executeQueryRaw('SELECT ?s WHERE { ?s ?p ?o }', [endpoint]);
+        expect(results).toEqual([{ s: { value: 'http://example.org/a', type: 'NamedNode', language: undefined } }]);
+        expect(requests).toBe(3);
+    });
+
+    it('should take a new limiter slot for every attempt', async () => {
+        const limiter = new EndpointLimiter({ requestsPerSecond: 0, burst: 1, maxConcurrent: 1 });
+        const schedule = vi.spyOn(limiter, 'schedule');
+        const queryService = new QueryService(undefined, { retry, limiter });
+        failures = [503, 503];
+        requests = 0;
+
+        await queryService.executeQueryRaw('SELECT ?s WHERE { ?s ?p ?o }', [endpoint]);
+        expect(requests).toBe(3);
+        expect(schedule).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry permanent failures', async () => {
+        const queryService = new QueryService(undefined, { retry });
+        failures = [400];
+        requests = 0;
+
+        await expect(queryService.executeQueryRaw('SELECT ?s WHERE { ?s ?p ?o }', [endpoint])).rejects.toThrow(/400/);
+        expect(requests).toBe(1);
+    });
+});
+
+describe('detectQueryForm', () => {
+    it('should detect the query form after the prologue', () => {
+        expect(detectQueryForm('SELECT ?s WHERE { ?s ?p ?o }')).toBe('SELECT');
+        expect(detectQueryForm('# Is there anything?\nask { ?s ?p ?o }')).toBe('ASK');
+        expect(detectQueryForm('PREFIX dblp: <https://dblp.org/rdf/schema#>\nBASE <https://dblp.org/>\nCONSTRUCT WHERE { ?s a dblp:Person }')).toBe('CONSTRUCT');
+        expect(detectQueryForm('PREFIX : <http://example.org/> DESCRIBE :alice')).toBe('DESCRIBE');
+        expect(detectQueryForm('SELECT ?ask WHERE { ?ask ?p ?o }')).toBe('SELECT');
+        expect(detectQueryForm('PREFIX ex: <http://example.org/> # people\nASK { ?s ?p ?o }')).toBe('ASK');
+        expect(detectQueryForm('PREFIX ex: <http://example.org/>\n# the people\nPREFIX foaf: <http://xmlns.com/foaf/0.1/>\nCONSTRUCT WHERE { ?s foaf:knows ex:alice }')).toBe('CONSTRUCT');
+        expect(detectQueryForm('ASK { ?s rdfs:label "x" }')).toBe('ASK');
+        expect(() => detectQueryForm('ASK { ?s ?p }')).toThrow(/^SPARQL syntax error at line 1, column/);
+    });
+});
+
+describe('QueryService with local RDF files', () => {
+    let dir: string;
+
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kg-local-'));
+        fs.writeFileSync(path.join(dir, 'people.ttl'), '@prefix ex: <http://example.org/> .\nex:alice ex:knows ex:bob ; ex:name "Alice"@en .\n');
+        fs.writeFileSync(path.join(dir, 'people.jsonld'), JSON.stringify({ '@id': 'http://example.org/carol', 'http://example.org/age': 42 }));
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should query Turtle and JSON-LD files', async () => {
+        const queryService = new QueryService();
+        const turtle = pathToFileURL(path.join(dir, 'people.ttl')).href;
+        const jsonld = pathToFileURL(path.join(dir, 'people.jsonld')).href;
+
+        expect(await queryService.executeQueryRaw('SELECT ?name WHERE { ?s <http://example.org/name> ?name }', [turtle]))
+            .toEqual([{ name: { value: 'Alice', type: 'Literal', language: 'en' } }]);
+        expect(await queryService.executeBooleanQuery('ASK { <http://example.org/carol> <http://example.org/age> 42 }', [jsonld])).toBe(true);
+    });
+
+    it('should enforce the query policy unless the server generated the query', async () => {
+        const queryService = new QueryService(undefined, { policy: { allowedServices: [], maxPathDepth: 0, maxComplexity: 1 } });
+        const turtle = pathToFileURL(path.join(dir, 'people.ttl')).href;
+        const query = 'SELECT ?name WHERE { ?s <http://example.org/knows> ?o ; <http://example.org/name> ?name }';
+
+        await expect(queryService.executeQueryRaw(query, [turtle])).rejects.toThrow(/rejected by the server's query policy/);
+        await expect(queryService.executeBooleanQuery(`ASK { SERVICE <http://evil.org/sparql> { ?s ?p ?o } }`, [turtle]))
+            .rejects.toThrow(/federated queries are disabled/);
+        expect(await queryService.executeQueryRaw(query, [turtle], { trusted: true })).toHaveLength(1);
+    });
+
+    it('should keep the projected variables in the results head, even if no row binds them', async () => {
+        const queryService = new QueryService();
+        const turtle = pathToFileURL(path.join(dir, 'people.ttl')).href;
+
+        const select = async (query: string, format: ResultFormat) =>
+            formatSelectResults(await queryService.executeQueryRaw(query, [turtle]), queryService.selectVariables(query), 'all', 100, format);
+
+        const empty = JSON.parse(await select('SELECT ?s ?o WHERE { ?s <http://example.org/hates> ?o }', 'json'));
+        expect(empty).toEqual({ head: { vars: ['s', 'o'] }, results: { bindings: [] } });
+
+        const unbound = await select('SELECT ?s ?age WHERE { ?s <http://example.org/knows> ?o OPTIONAL { ?s <http://example.org/age> ?age } }', 'csv');
+        expect(unbound.split('\r\n')[0]).toBe('s,age');
+    });
+
+    it('should report files that cannot be loaded', async () => {
+        const queryService = new QueryService();
+        await expect(queryService.executeQueryRaw('SELECT * WHERE { ?s ?p ?o }', [pathToFileURL(path.join(dir, 'missing.ttl')).href]))
+            .rejects.toThrow(/Cannot read RDF file .*missing.ttl/);
+        await expect(queryService.executeQueryRaw('SELECT * WHERE { ?s ?p ?o }', [pathToFileURL(path.join(dir, 'people.csv')).href]))
+            .rejects.toThrow(/Unsupported RDF file .*Use one of .ttl/);
+    });
+});
+
+describe('QueryService source types', () => {
+    let server: http.Server;
+    let document: string;
+
+    beforeAll(async () => {
+        // A Linked Data document, not a SPARQL endpoint
+        server = http.createServer((req, res) => {
+            res.setHeader('Content-Type', 'text/turtle');
+            res.end('<http://example.org/alice> <http://example.org/knows> <http://example.org/bob> .');
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        document = `http://127.0.0.1:${(server.address() as AddressInfo).port}/alice.ttl`;
+    });
+
+    afterAll(async () => {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should query RDF documents as file and hypermedia sources', async () => {
+        for (const sourceType of ['file', 'hypermedia'] as const) {
+            const queryService = new QueryService(undefined, { sourceType });
+            expect(await queryService.executeQueryRaw('SELECT ?o WHERE { <http://example.org/alice> <http://example.org/knows> ?o }', [document]))
+                .toEqual([{ o: { value: 'http://example.org/bob', type: 'NamedNode' } }]);
+        }
+    });
+});
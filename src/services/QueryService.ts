@@ -1,34 +1,161 @@
 import { QueryEngine } from "@comunica/query-sparql";
-import { QueryStringContext } from "@comunica/types";
+import type { QueryStringContext, QuerySourceUnidentified } from "@comunica/types";
 import { PrefixManager } from "../utils/PrefixManager.js";
 import type { Quad } from "@rdfjs/types";
-import { generateMarkdownTable } from "../utils/formatting/index.js";
+import {
+  generateMarkdownTable,
+  resultVariables,
+  formatResults,
+  toResultTerm,
+  type ResultFormat,
+  type ResultRow,
+} from "../utils/formatting/index.js";
+import { sparqlDuration, sparqlQueries, sparqlQueueWait } from "../utils/metrics.js";
+import { QueryCache } from "../utils/QueryCache.js";
+import type { AppConfig } from "../config.js";
+import { currentQueryContext } from "../utils/QueryContext.js";
+import { parseQuery, rewriteQuery, selectVariables, type RewriteOptions } from "../utils/queryRewriter.js";
+import { DEFAULT_QUERY_POLICY, type QueryPolicy } from "../utils/queryPolicy.js";
+import Logger from "../utils/logger.js";
+import { EndpointLimiter, type EndpointLimits } from "../utils/EndpointLimiter.js";
+import { isLocalSource, loadLocalSource } from "../utils/LocalSource.js";
+import { resolveSourceType } from "../utils/sourceTypes.js";
+import type { SourceType } from "../types/index.js";
+import { withRetry, parseRetryAfter, type AttemptInfo, type RetryOptions } from "../utils/retry.js";
 
-function addDistinctToQuery(query: string): string {
-  // Use regex to find SELECT statements and add DISTINCT if not already present
-  return query.replace(/\bSELECT\s+(?!DISTINCT\s)/gi, 'SELECT DISTINCT ');
+const CANCELLED_MESSAGE = "The SPARQL query was cancelled.";
+
+export type QueryForm = "SELECT" | "ASK" | "CONSTRUCT" | "DESCRIBE";
+
+/**
+ * The form of a SPARQL query, from its parse with `prefixes` available.
+ * Throws the positioned syntax errors of parseQuery.
+ */
+export function detectQueryForm(query: string, prefixes?: Record<string, string>): QueryForm {
+  return parseQuery(query, prefixes).queryType;
+}
+
+export interface QueryServiceOptions {
+  /** Shared result cache (omit to always query the endpoint) */
+  cache?: QueryCache;
+  /** Lifetime of this endpoint's cached results (default: the cache's TTL) */
+  cacheTtlSeconds?: number;
+  /** Abort a query after this long (0 = no timeout) */
+  timeoutSeconds?: number;
+  /** Shared per-endpoint rate limiter (omit to send queries right away) */
+  limiter?: EndpointLimiter;
+  /** This endpoint's limits (default: the limiter's) */
+  limits?: Partial<EndpointLimits>;
+  /** Retries of transient failures (default: none) */
+  retry?: RetryOptions;
+  /** Cap the LIMIT of SELECT, CONSTRUCT and DESCRIBE queries (0 = no cap) */
+  maxLimit?: number;
+  /** Interface of the endpoints (default: 'file' for file:// URLs, else 'sparql') */
+  sourceType?: SourceType;
+  /** Limits on agent-written queries, see ExecuteOptions (default: only built-in services allowed) */
+  policy?: QueryPolicy;
+  /** The dataset's prefixes, for queries and results (default: the global ones) */
+  prefixes?: PrefixManager;
+  /** Dataset name in the metrics labels, which do not show endpoint URLs (default: 'default') */
+  dataset?: string;
+}
+
+export interface ExecuteOptions {
+  /**
+   * The server generated the query (search, inspect, fact, query_builder, labels), so the query policy
+   * does not apply. Queries are checked against it by default: SERVICE allowlist, path depth, complexity.
+   */
+  trusted?: boolean;
+}
+
+/**
+ * Settings shared by all datasets' QueryServices, from the `sparql` config section
+ */
+export function createQueryOptions(sparql: AppConfig["sparql"], cache: QueryCache): QueryServiceOptions {
+  const { timeoutSeconds, requestsPerSecond, burst, maxConcurrent, maxRetries, retryBaseDelayMs, retryMaxDelayMs, maxLimit } = sparql;
+  const { allowedServices, maxPathDepth, maxComplexity } = sparql;
+  return {
+    cache,
+    timeoutSeconds,
+    maxLimit,
+    policy: { allowedServices, maxPathDepth, maxComplexity },
+    limiter: new EndpointLimiter({ requestsPerSecond, burst, maxConcurrent }),
+    retry: { maxRetries, baseDelayMs: retryBaseDelayMs, maxDelayMs: retryMaxDelayMs },
+  };
 }
 
 export class QueryService {
   private queryEngine: QueryEngine;
   private sparqlToken?: string;
+  private cache?: QueryCache;
+  private cacheTtlSeconds: number;
+  private timeoutSeconds: number;
+  private limiter?: EndpointLimiter;
+  private limits?: Partial<EndpointLimits>;
+  private retry: RetryOptions;
+  private maxLimit: number;
+  private policy: QueryPolicy;
+  private sourceType?: SourceType;
+  readonly prefixes: PrefixManager;
+  private dataset: string;
 
-  constructor(sparqlToken?: string) {
+  constructor(sparqlToken?: string, options: QueryServiceOptions = {}) {
     this.queryEngine = new QueryEngine();
     this.sparqlToken = sparqlToken;
+    this.cache = options.cache;
+    this.cacheTtlSeconds = options.cacheTtlSeconds ?? options.cache?.defaultTtlSeconds ?? 0;
+    this.timeoutSeconds = options.timeoutSeconds ?? 0;
+    this.limiter = options.limiter;
+    this.limits = options.limits;
+    this.retry = options.retry ?? { maxRetries: 0, baseDelayMs: 0, maxDelayMs: 0 };
+    this.maxLimit = options.maxLimit ?? 0;
+    this.policy = options.policy ?? DEFAULT_QUERY_POLICY;
+    this.sourceType = options.sourceType;
+    this.prefixes = options.prefixes ?? PrefixManager.getInstance();
+    this.dataset = options.dataset ?? "default";
   }
 
-  async executeQueryRaw(query: string, sources: Array<string>): Promise<any[]> {
-    // Rate limiting: 100ms delay before each query
-    const prefixManager = PrefixManager.getInstance();
-    await new Promise((resolve) => setTimeout(resolve, 100));
-    // Enrich query with PREFIXes
-
-    let modifiedQuery = addDistinctToQuery(query);
-    modifiedQuery = prefixManager.addPrefixesToQuery(modifiedQuery);
+  /**
+   * The Comunica source of an endpoint. file:// sources are queried in memory.
+   */
+  private async createSource(source: string): Promise<QuerySourceUnidentified> {
+    if (isLocalSource(source)) {
+      return { type: 'rdfjs', value: await loadLocalSource(source) };
+    }
+    switch (resolveSourceType(source, this.sourceType)) {
+      case "tpf":
+        return { type: 'qpf', value: source };
+      case "file":
+        return { type: 'file', value: source };
+      case "hypermedia":
+        // Comunica detects the interface: TPF, a SPARQL service description or a plain Linked Data document
+        return source;
+      default:
+        return { type: 'sparql', value: source };
+    }
+  }
 
+  private async createContext(sources: Array<string>, signal?: AbortSignal, attempt?: AttemptInfo): Promise<QueryStringContext> {
     const context: QueryStringContext = {
-      sources: sources.map(source => ({ type: 'sparql' as const, value: source })),
+      sources: await Promise.all(sources.map((source) => this.createSource(source))),
+    };
+
+    // Cancel Comunica's HTTP requests together with the query and
+    // note failed responses so the retry logic can classify the error
+    context.fetch = async (input, init) => {
+      const requestSignal = init?.signal && signal ? AbortSignal.any([init.signal, signal]) : init?.signal ?? signal;
+      let response: Response;
+      try {
+        response = await fetch(input, { ...init, signal: requestSignal });
+      } catch (error) {
+        if (attempt && !requestSignal?.aborted) attempt.networkError = true;
+        throw error;
+      }
+      if (attempt && !response.ok) {
+        attempt.status = response.status;
+        attempt.retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+      }
+      return response;
     };
 
     // Add authentication headers if token is provided
@@ -37,18 +164,142 @@ export class QueryService {
         'Authorization': `Bearer ${this.sparqlToken}`,
       };
     }
+    return context;
+  }
+
+  /**
+   * Record duration and outcome of a SPARQL round-trip per dataset
+   */
+  private async measure<T>(kind: string, fn: () => Promise<T>): Promise<T> {
+    const labels = { dataset: this.dataset, kind };
+    try {
+      const result = await sparqlDuration.time(labels, fn);
+      sparqlQueries.inc({ ...labels, status: "ok" });
+      return result;
+    } catch (error) {
+      sparqlQueries.inc({ ...labels, status: "error" });
+      throw error;
+    }
+  }
 
-    const bindingsStream = await this.queryEngine.queryBindings(modifiedQuery, context);
+  /**
+   * Run a query with the configured timeout, cancelled early if the current call's signal aborts
+   * (e.g. the MCP client cancelled the tool call). `run` must stop its requests when `signal` aborts.
+   */
+  private async withDeadline<T>(run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const requestSignal = currentQueryContext().signal;
+    if (requestSignal?.aborted) {
+      throw new Error(CANCELLED_MESSAGE);
+    }
 
-    const bindings = await bindingsStream.toArray();
+    const controller = new AbortController();
+    const onCancel = () => controller.abort(new Error(CANCELLED_MESSAGE));
+    requestSignal?.addEventListener("abort", onCancel, { once: true });
+    const timer = this.timeoutSeconds > 0
+      ? setTimeout(() => controller.abort(new Error(
+        `The SPARQL query timed out after ${this.timeoutSeconds}s. Narrow it down and try again, e.g. with a more specific type or filter, fewer expanded properties or a lower limit.`
+      )), this.timeoutSeconds * 1000)
+      : undefined;
+
+    const aborted = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener("abort", () => reject(controller.signal.reason), { once: true });
+    });
+    const running = run(controller.signal);
+    // The aborted run still rejects after the race is decided
+    running.catch(() => undefined);
+    try {
+      return await Promise.race([running, aborted]);
+    } finally {
+      clearTimeout(timer);
+      requestSignal?.removeEventListener("abort", onCancel);
+    }
+  }
+
+  /**
+   * Send a query with the configured timeout and retries of transient failures.
+   * Every attempt waits for its own limiter slot after the backoff, and is measured as one round-trip.
+   */
+  private async execute<T>(kind: string, sources: Array<string>, run: (context: QueryStringContext) => Promise<T>): Promise<T> {
+    return this.withDeadline((signal) =>
+      withRetry(sources.join(","), this.retry, (attempt) => this.throttled(sources, signal, () =>
+        this.measure(kind, async () => run(await this.createContext(sources, signal, attempt)))
+      ), signal)
+    );
+  }
+
+  /**
+   * Wait for the endpoint's rate limit and concurrency cap, then run the query (local files are not limited).
+   * Rejects if `signal` aborts while waiting.
+   */
+  private async throttled<T>(sources: Array<string>, signal: AbortSignal, run: () => Promise<T>): Promise<T> {
+    if (!this.limiter || sources.every(isLocalSource)) {
+      return run();
+    }
+    const start = Date.now();
+    return this.limiter.schedule(sources.join(","), () => {
+      sparqlQueueWait.observe({ dataset: this.dataset }, (Date.now() - start) / 1000);
+      return run();
+    }, this.limits, signal);
+  }
+
+  /**
+   * Serve a prefix-expanded query from the shared cache or run it.
+   * A query shared with other callers keeps running if this caller cancels, as long as one of them waits.
+   */
+  private async cached<T>(kind: string, query: string, sources: Array<string>, run: () => Promise<T>): Promise<T> {
+    if (!this.cache) {
+      return run();
+    }
+    const key = QueryCache.key(kind, query, sources);
+    const signal = currentQueryContext().signal;
+    try {
+      return await this.cache.getOrLoad(key, this.dataset, this.cacheTtlSeconds, run);
+    } catch (error) {
+      // Stopped waiting for a shared query
+      if (signal?.aborted && error === signal.reason) {
+        throw new Error(CANCELLED_MESSAGE);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse the query and apply the rewrites (registered prefixes, LIMIT cap, ...).
+   * Syntax errors are thrown here, before anything is sent.
+   */
+  private rewrite(query: string, options: RewriteOptions = {}): string {
+    const rewritten = rewriteQuery(query, { maxLimit: this.maxLimit, prefixes: this.prefixes.getPrefixMap(), ...options });
+    if (rewritten.limitCapped) {
+      Logger.debug(`Capped ${rewritten.queryType} query to LIMIT ${this.maxLimit}`);
+    }
+    return rewritten.query;
+  }
+
+  /**
+   * Parse and rewrite the query, checking it against the query policy unless the server generated it.
+   * Throws an explanation of what is not allowed.
+   */
+  private prepare(query: string, options: ExecuteOptions, rewrite: RewriteOptions = {}): string {
+    return this.rewrite(query, { ...rewrite, policy: options.trusted ? undefined : this.policy });
+  }
+
+  async executeQueryRaw(query: string, sources: Array<string>, options: ExecuteOptions = {}): Promise<any[]> {
+    const modifiedQuery = this.prepare(query, options, { distinct: true });
+
+    const results = await this.cached("select", modifiedQuery, sources, () => this.runSelect(modifiedQuery, sources));
+    // Callers may modify the array, the cached one stays intact
+    return [...results];
+  }
+
+  private async runSelect(modifiedQuery: string, sources: Array<string>): Promise<any[]> {
+    const bindings = await this.execute("select", sources, async (context) => {
+      const bindingsStream = await this.queryEngine.queryBindings(modifiedQuery, context);
+      return await bindingsStream.toArray();
+    });
     const results = bindings.map((binding) => {
       const result: any = {};
       for (const [variable, term] of binding) {
-        result[variable.value] = {
-          value: term.value,
-          type: term.termType,
-          language: ((term as any).language as string) || undefined,
-        };
+        result[variable.value] = toResultTerm(term);
       }
       return result;
     });
@@ -65,65 +316,95 @@ export class QueryService {
     });
   }
 
-  async executeConstructQuery(query: string, sources: Array<string>): Promise<Quad[]> {
-    const prefixManager = PrefixManager.getInstance();
-    await new Promise((resolve) => setTimeout(resolve, 100));
+  async executeConstructQuery(query: string, sources: Array<string>, options: ExecuteOptions = {}): Promise<Quad[]> {
+    const modifiedQuery = this.prepare(query, options);
 
-    let modifiedQuery = prefixManager.addPrefixesToQuery(query);
+    const quads = await this.cached("construct", modifiedQuery, sources, () =>
+      this.execute("construct", sources, async (context) => {
+        const quadStream = await this.queryEngine.queryQuads(modifiedQuery, context);
+        return await quadStream.toArray();
+      })
+    );
+    return [...quads];
+  }
 
-    const context: QueryStringContext = {
-      sources: sources.map(source => ({ type: 'sparql' as const, value: source })),
-    };
+  /**
+   * Execute an ASK query with prefix enrichment, caching, rate limits and retries
+   */
+  async executeBooleanQuery(query: string, sources: Array<string>, options: ExecuteOptions = {}): Promise<boolean> {
+    const modifiedQuery = this.prepare(query, options);
 
-    if (this.sparqlToken) {
-      context.httpHeaders = {
-        'Authorization': `Bearer ${this.sparqlToken}`,
-      };
-    }
+    return await this.cached("ask", modifiedQuery, sources, () =>
+      this.execute("ask", sources, (context) => this.queryEngine.queryBoolean(modifiedQuery, context))
+    );
+  }
 
-    const quadStream = await this.queryEngine.queryQuads(modifiedQuery, context);
-    return await quadStream.toArray();
+  /**
+   * Execute an ASK query (used by the readiness probe, so no prefix enrichment, caching or rate limits).
+   * Aborting `signal` cancels the query's requests.
+   */
+  async executeAskQuery(query: string, sources: Array<string>, signal?: AbortSignal): Promise<boolean> {
+    return await this.queryEngine.queryBoolean(query, await this.createContext(sources, signal));
   }
 
-  async executeQuery(query: string, sources: Array<string>, language: string, maxRows: number = 100): Promise<string> {
-    const results = await this.executeQueryRaw(query, sources);
-    const prefixManager = PrefixManager.getInstance();
+  /**
+   * The result variables of a SELECT query (the header of its results, even if no row binds them)
+   */
+  selectVariables(query: string): string[] {
+    const parsed = parseQuery(query, this.prefixes.getPrefixMap());
+    return parsed.queryType === "SELECT" ? selectVariables(parsed) : [];
+  }
+}
 
-    let languageFilteredResults = results;
-    if (language !== "all") {
-      languageFilteredResults = results.filter((result) => {
-        return Object.values(result).some((field: any) => {
-          // Include if field has matching language, no language (undefined), or empty string language
-          return !field.language || field.language === "" || field.language === language;
-        });
+/**
+ * Filter SELECT results by language, limit them to `maxRows` and render them as a Markdown table
+ * (prefixes compressed, with a truncation note) or in one of the standard SPARQL result formats (exact terms, no note).
+ * `variables` are the query's result variables, see QueryService.selectVariables.
+ */
+export function formatSelectResults(
+  results: ResultRow[],
+  variables: string[],
+  language: string,
+  maxRows: number,
+  format: ResultFormat,
+  prefixManager: PrefixManager = PrefixManager.getInstance()
+): string {
+  let languageFilteredResults = results;
+  if (language !== "all") {
+    languageFilteredResults = results.filter((result) => {
+      return Object.values(result).some((field: any) => {
+        // Include if field has matching language, no language (undefined), or empty string language
+        return !field.language || field.language === "" || field.language === language;
       });
-    }
-
-    if (languageFilteredResults.length === 0) {
-      return `No results found for language "${language}".`;
-    }
+    });
+  }
 
-    // Apply maxRows limit
-    const limitedResults = languageFilteredResults.slice(0, maxRows);
-    const wasTruncated = languageFilteredResults.length > maxRows;
+  // Apply maxRows limit
+  const limitedResults: ResultRow[] = languageFilteredResults.slice(0, maxRows);
+  const wasTruncated = languageFilteredResults.length > maxRows;
+  const headers = [...new Set([...variables, ...resultVariables(limitedResults)])];
 
-    // Extract headers from the first result
-    const headers = Object.keys(limitedResults[0]);
+  if (format !== "markdown") {
+    return formatResults(format, headers, limitedResults);
+  }
 
-    // Convert results to rows of string values
-    const rows = limitedResults.map((result) => {
-      return headers.map(header => result[header]?.value || '');
-    });
+  if (languageFilteredResults.length === 0) {
+    return `No results found for language "${language}".`;
+  }
 
-    // Format as markdown table
-    let resultTable = generateMarkdownTable(headers, rows);
+  // Convert results to rows of string values
+  const rows = limitedResults.map((result) => {
+    return headers.map(header => result[header]?.value || '');
+  });
 
-    // Add truncation notice if results were limited
-    if (wasTruncated) {
-      resultTable += `\n\n**Note**: Results were limited to ${maxRows} rows. Total matching results: ${languageFilteredResults.length}. To see more results, increase the \`maxRows\` parameter.`;
-    }
+  // Format as markdown table
+  let resultTable = generateMarkdownTable(headers, rows);
 
-    resultTable = prefixManager.compressTextWithPrefixes(resultTable);
-    return resultTable;
+  // Add truncation notice if results were limited
+  if (wasTruncated) {
+    resultTable += `\n\n**Note**: Results were limited to ${maxRows} rows. Total matching results: ${languageFilteredResults.length}. To see more results, increase the \`maxRows\` parameter.`;
   }
+
+  resultTable = prefixManager.compressTextWithPrefixes(resultTable);
+  return resultTable;
 }
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { QueryService } from './QueryService.js';
+import { SearchService } from './SearchService.js';
+
+// The triples a text index answers with, next to a resource that only shares the matched literal
+const DATA = `
+@prefix ex: <http://example.org/> .
+@prefix rdfs: <http://www.w3.org/2000/01/rdf-schema#> .
+@prefix text: <http://jena.apache.org/text#> .
+@prefix luc: <http://www.ontotext.com/connectors/lucene#> .
+@prefix inst: <http://www.ontotext.com/connectors/lucene/instance#> .
+
+ex:turing rdfs:label "Alan Turing" .
+ex:statue rdfs:comment "Alan Turing" .
+
+( ex:turing 1.5 "Alan Turing" ) text:query "turing*" .
+
+[] a inst:kg_labels ; luc:query "turing*" ; luc:entities ex:turing .
+ex:turing luc:snippets [ luc:snippetText "Alan <em>Turing</em>" ; luc:snippetField "label" ] .
+`;
+
+describe('SearchService with entity text indexes', () => {
+    let dir: string;
+    let endpoint: string;
+
+    beforeAll(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kg-search-'));
+        fs.writeFileSync(path.join(dir, 'index.ttl'), DATA);
+        endpoint = pathToFileURL(path.join(dir, 'index.ttl')).href;
+    });
+
+    afterAll(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should return the entities the index matched, not resources sharing their text', async () => {
+        const jena = new SearchService(new QueryService(), 'jena');
+        expect(await jena.searchAll('turing', endpoint)).toEqual([
+            { uri: 'http://example.org/turing', textProp: 'http://www.w3.org/2000/01/rdf-schema#label', searchText: 'Alan Turing' },
+        ]);
+
+        const graphdb = new SearchService(new QueryService(), 'graphdb', 'sparql', undefined, 'kg_labels');
+        expect(await graphdb.searchAll('turing', endpoint)).toEqual([
+            { uri: 'http://example.org/turing', textProp: 'label', searchText: 'Alan <em>Turing</em>' },
+        ]);
+    });
+});
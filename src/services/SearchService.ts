@@ -1,27 +1,38 @@
 import { QueryService } from "./QueryService";
-import { ResourceResult } from "../types/index.js";
-import { QueryParserService, FallbackBackend, QLeverBackend } from "../utils/queryParser.js";
+import { ResourceResult, SourceType } from "../types/index.js";
+import { QueryParserService, createSearchBackend } from "../utils/queryParser.js";
+import { supportsTextSearch } from "../utils/sourceTypes.js";
+import type { EndpointProfiler } from "../utils/endpointProfile.js";
 
 
 export class SearchService {
   private queryService: QueryService;
   private queryParser: QueryParserService;
+  private sourceType: SourceType;
+  private profiler?: EndpointProfiler;
+  private searchIndex?: string;
 
-  constructor(queryService: QueryService, searchBackend?: string) {
+  /**
+   * With a `profiler`, the backend follows the endpoint's detected engine (probed before the first search).
+   * `searchIndex` names the GraphDB Lucene connector.
+   */
+  constructor(queryService: QueryService, searchBackend?: string, sourceType: SourceType = "sparql", profiler?: EndpointProfiler, searchIndex?: string) {
     this.queryService = queryService;
+    this.sourceType = sourceType;
+    this.profiler = profiler;
+    this.searchIndex = searchIndex;
 
-    // Default to Fallback (universal), allow override to QLever
-    let backend;
-    switch (searchBackend) {
-      case 'qlever':
-        backend = new QLeverBackend();
-        break;
-      default:
-        backend = new FallbackBackend();
-        break;
-    }
+    // Default to Fallback (universal), allow override to a text index
+    this.queryParser = new QueryParserService(createSearchBackend(searchBackend, searchIndex));
+  }
 
-    this.queryParser = new QueryParserService(backend);
+  /**
+   * Switch to the search backend of the detected engine (no-op for a configured backend)
+   */
+  public async detectBackend(): Promise<void> {
+    if (!this.profiler) return;
+    const profile = await this.profiler.get();
+    this.queryParser.setBackend(createSearchBackend(profile.searchBackend, this.searchIndex));
   }
 
   public getQueryParser(): QueryParserService {
@@ -37,6 +48,13 @@ export class SearchService {
     if (!sparqlEndpoint) {
       throw new Error("SPARQL endpoint not configured for search");
     }
+    if (!supportsTextSearch(this.sourceType)) {
+      throw new Error(
+        `Text search is not available for this dataset: it is a '${this.sourceType}' source, which would have to be downloaded completely. ` +
+        "Start from a known URI with 'inspect', match triple patterns with 'fact', or use 'query_builder' with a class and filters."
+      );
+    }
+    await this.detectBackend();
 
     let query = `
       PREFIX rdf: <http://www.w3.org/1999/02/22-rdf-syntax-ns#>
@@ -44,8 +62,7 @@ export class SearchService {
       PREFIX textSearch: <https://qlever.cs.uni-freiburg.de/textSearch/>
       
       SELECT DISTINCT * WHERE {
-        ?resource ?textProp ?searchText .
-        ${this.queryParser.parseAndGeneratePattern(searchQuery, "?searchText")}
+        ${this.queryParser.parseAndGenerateResourcePattern(searchQuery, "?resource", "?textProp", "?searchText")}
       }
       ORDER BY ?resource
       LIMIT ${limit}
@@ -54,7 +71,7 @@ export class SearchService {
 
     const results = await this.queryService.executeQueryRaw(query, [
       sparqlEndpoint,
-    ]);
+    ], { trusted: true });
 
     return results
       .map((binding: any) => {
@@ -42,7 +42,7 @@ export class TripleService {
       LIMIT ${limit}
     `;
 
-        const quads = await this.queryService.executeConstructQuery(query, [this.sparqlEndpoint]);
+        const quads = await this.queryService.executeConstructQuery(query, [this.sparqlEndpoint], { trusted: true });
 
         if (quads.length === 0) {
             return [];
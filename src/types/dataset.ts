@@ -0,0 +1,68 @@
+/**
+ * How a dataset's endpoint is queried: a SPARQL endpoint, a Triple Pattern Fragments interface,
+ * a single RDF file, or whatever interface Comunica detects when dereferencing the URL
+ */
+export type SourceType = "sparql" | "tpf" | "file" | "hypermedia";
+
+/**
+ * A named SPARQL dataset the server can query
+ */
+export interface DatasetConfig {
+    /** Unique name used in the tools' `dataset` argument */
+    name: string;
+    /** SPARQL endpoint URL, or a file:// URL of a local RDF file (Turtle, N-Triples, N-Quads, TriG, N3 or JSON-LD) */
+    endpoint: string;
+    /** Interface of the endpoint (default: 'file' for file:// URLs, else 'sparql') */
+    sourceType?: SourceType;
+    /** Search backend of the endpoint ('qlever', 'virtuoso', 'blazegraph', 'graphdb', 'jena' or 'fallback'), or 'auto' to detect it */
+    engine: string;
+    /** Name of the GraphDB Lucene connector the 'graphdb' backend searches */
+    searchIndex?: string;
+    /** Bearer token for the endpoint */
+    token?: string;
+    /** Extra prefixes for this dataset (prefix -> namespace) */
+    prefixes?: Record<string, string>;
+    /** Short description shown to the agent */
+    description?: string;
+    /** Lifetime of cached query results for this endpoint (default: `cache.ttlSeconds`, 0 = no caching) */
+    cacheTtlSeconds?: number;
+    /** Abort queries against this endpoint after this long (default: `sparql.timeoutSeconds`, 0 = no timeout) */
+    timeoutSeconds?: number;
+    /** Sustained request rate to this endpoint (default: `sparql.requestsPerSecond`, 0 = unlimited) */
+    requestsPerSecond?: number;
+    /** Requests that may start at once after an idle period (default: `sparql.burst`) */
+    burst?: number;
+    /** Queries in flight at the same time (default: `sparql.maxConcurrent`, 0 = unlimited) */
+    maxConcurrent?: number;
+}
+
+/**
+ * SPARQL engines the endpoint probe recognizes ('comunica' for sources Comunica evaluates itself)
+ */
+export type EngineName = "qlever" | "virtuoso" | "blazegraph" | "graphdb" | "fuseki" | "oxigraph" | "comunica" | "unknown";
+
+/**
+ * Features the endpoint probe tested
+ */
+export interface EndpointCapabilities {
+    /** A full-text index the search backend can use (instead of FILTER over all literals) */
+    textSearch: boolean;
+    /** Data in named graphs (GRAPH ?g { ... } matches) */
+    namedGraphs: boolean;
+    groupConcat: boolean;
+    propertyPaths: boolean;
+}
+
+/**
+ * What the endpoint probe found out about a dataset's endpoint
+ */
+export interface EndpointProfile {
+    engine: EngineName;
+    /** How the engine was recognized: 'headers', 'service description', 'test query', 'source type' or 'none' */
+    detectedBy: string;
+    capabilities: EndpointCapabilities;
+    /** Search backend in use, the configured `engine` or the one matching the detected engine */
+    searchBackend: string;
+    /** Why the endpoint could not be probed (it is probed again on next use) */
+    error?: string;
+}
@@ -9,3 +9,4 @@ export interface ResourceResult {
 export * from "./inspection.js";
 export * from "./query.js";
 export * from "./explanation.js";
+export * from "./dataset.js";
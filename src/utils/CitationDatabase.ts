@@ -1,6 +1,8 @@
 import { Quad } from "@rdfjs/types";
 import { QueryBuilderResult } from "../types/index.js";
 import { generateHumanId } from "./humanId.js";
+import { MemoryStorage, serializeQuads, deserializeQuads } from "./storage/index.js";
+import type { StorageBackend, StorageCodec, StorageCollection } from "./storage/index.js";
 
 /**
  * Citation for RDF triples
@@ -12,6 +14,12 @@ export interface TripleCitation {
     quads: Quad[];
     createdAt: Date;
     isActive: boolean;
+    /** When the citation was activated via 'cite' (starts its retention period) */
+    activatedAt?: Date;
+    /** Name of the dataset the data came from */
+    dataset?: string;
+    /** Datasets each quad was found in, by position (federated citations only) */
+    quadDatasets?: string[][];
 }
 
 /**
@@ -25,6 +33,12 @@ export interface QueryBuilderCitation {
     description: string;
     createdAt: Date;
     isActive: boolean;
+    /** When the citation was activated via 'cite' (starts its retention period) */
+    activatedAt?: Date;
+    /** Name of the dataset the data came from */
+    dataset?: string;
+    /** Datasets each quad was found in, by position (federated citations only) */
+    quadDatasets?: string[][];
 }
 
 /**
@@ -32,19 +46,64 @@ export interface QueryBuilderCitation {
  */
 export type Citation = TripleCitation | QueryBuilderCitation;
 
+/**
+ * The datasets of each quad, undefined unless the quads come from a federated call
+ */
+function datasetsOf(quads: Quad[], sources?: Map<Quad, string[]>): string[][] | undefined {
+    if (!sources || sources.size === 0) return undefined;
+    return quads.map((quad) => sources.get(quad) ?? []);
+}
+
+const citationCodec: StorageCodec<Citation> = {
+    serialize(citation) {
+        if (citation.type === 'triple') {
+            return { ...citation, quads: serializeQuads(citation.quads) };
+        }
+        return {
+            ...citation,
+            result: { ...citation.result, quads: serializeQuads(citation.result.quads) }
+        };
+    },
+    deserialize(raw) {
+        const createdAt = new Date(raw.createdAt);
+        const activatedAt = raw.activatedAt ? new Date(raw.activatedAt) : undefined;
+        if (raw.type === 'triple') {
+            return { ...raw, createdAt, activatedAt, quads: deserializeQuads(raw.quads) };
+        }
+        return {
+            ...raw,
+            createdAt,
+            activatedAt,
+            result: { ...raw.result, quads: deserializeQuads(raw.result.quads) }
+        };
+    }
+};
+
 export class CitationDatabase {
-    private citations: Map<string, Citation> = new Map();
+    private citations: StorageCollection<Citation>;
     private sessionCitations: Map<string, Set<string>> = new Map();
 
+    constructor(storage: StorageBackend = new MemoryStorage()) {
+        this.citations = storage.collection("citations", citationCodec);
+
+        // Rebuild the session index for citations loaded from persistent storage
+        for (const citation of this.citations.values()) {
+            this.trackSession(citation.sessionId, citation.id);
+        }
+    }
+
+    private trackSession(sessionId: string, citationId: string): void {
+        if (!this.sessionCitations.has(sessionId)) {
+            this.sessionCitations.set(sessionId, new Set());
+        }
+        this.sessionCitations.get(sessionId)!.add(citationId);
+    }
 
     private storeGenericCitation(citation: Citation, citationId: string): string {
         this.citations.set(citationId, citation);
 
         // Track citation for session cleanup
-        if (!this.sessionCitations.has(citation.sessionId)) {
-            this.sessionCitations.set(citation.sessionId, new Set());
-        }
-        this.sessionCitations.get(citation.sessionId)!.add(citationId);
+        this.trackSession(citation.sessionId, citationId);
 
         return citationId;
     }
@@ -68,9 +127,11 @@ export class CitationDatabase {
      * Store triples and generate a unique citation ID (human-readable)
      * @param sessionId - The session ID that created this citation
      * @param quads - The RDF quads
+     * @param dataset - Name of the dataset the quads came from
+     * @param sources - Datasets of each quad of a federated call
      * @returns The unique citation ID
      */
-    storeCitation(sessionId: string, quads: Quad[], preferredId?: string): string {
+    storeCitation(sessionId: string, quads: Quad[], preferredId?: string, dataset?: string, sources?: Map<Quad, string[]>): string {
         const citationId = this.generateId(preferredId);
 
         const citation: TripleCitation = {
@@ -79,7 +140,9 @@ export class CitationDatabase {
             sessionId,
             quads,
             createdAt: new Date(),
-            isActive: false
+            isActive: false,
+            dataset,
+            quadDatasets: datasetsOf(quads, sources)
         };
 
         return this.storeGenericCitation(citation, citationId);
@@ -90,13 +153,17 @@ export class CitationDatabase {
      * @param sessionId - The session ID that created this citation
      * @param result - The query builder result
      * @param description - Human-readable description of the query
+     * @param dataset - Name of the dataset the result came from
+     * @param sources - Datasets of each quad of a federated call
      * @returns The unique citation ID
      */
     storeQueryBuilderCitation(
         sessionId: string,
         result: QueryBuilderResult,
         description: string,
-        preferredId?: string
+        preferredId?: string,
+        dataset?: string,
+        sources?: Map<Quad, string[]>
     ): string {
         const citationId = this.generateId(preferredId);
 
@@ -107,7 +174,9 @@ export class CitationDatabase {
             result,
             description,
             createdAt: new Date(),
-            isActive: false
+            isActive: false,
+            dataset,
+            quadDatasets: datasetsOf(result.quads, sources)
         };
 
         return this.storeGenericCitation(citation, citationId);
@@ -122,6 +191,8 @@ export class CitationDatabase {
         const citation = this.citations.get(citationId);
         if (citation) {
             citation.isActive = true;
+            citation.activatedAt ??= new Date();
+            this.citations.set(citationId, citation);
             return true;
         }
         return false;
@@ -152,19 +223,45 @@ export class CitationDatabase {
     }
 
     /**
-     * Remove all citations for a session
+     * Release a session that has ended.
+     * Inactive citation keys are removed; activated citations stay available
+     * until they expire (see sweepExpired).
      * @param sessionId - The session ID to clean up
      */
     cleanupSession(sessionId: string): void {
         const citationIds = this.sessionCitations.get(sessionId);
         if (citationIds) {
             for (const id of citationIds) {
-                this.citations.delete(id);
+                if (!this.citations.get(id)?.isActive) {
+                    this.citations.delete(id);
+                }
             }
             this.sessionCitations.delete(sessionId);
         }
     }
 
+    /**
+     * Remove expired citations
+     * @param activeCutoff - Activated citations activated before this date are removed
+     * @param inactiveCutoff - Inactive citations created before this date are removed
+     * @returns Number of removed citations
+     */
+    sweepExpired(activeCutoff: Date, inactiveCutoff: Date): number {
+        const expired: Citation[] = [];
+        for (const citation of this.citations.values()) {
+            const isExpired = citation.isActive
+                ? (citation.activatedAt ?? citation.createdAt) < activeCutoff
+                : citation.createdAt < inactiveCutoff;
+            if (isExpired) expired.push(citation);
+        }
+
+        for (const citation of expired) {
+            this.citations.delete(citation.id);
+            this.sessionCitations.get(citation.sessionId)?.delete(citation.id);
+        }
+        return expired.length;
+    }
+
     /**
      * Get total number of citations
      */
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { EndpointLimiter } from './EndpointLimiter.js';
+
+const ENDPOINT = 'https://example.org/sparql';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('EndpointLimiter', () => {
+    it('should cap concurrent queries per endpoint and serve waiters in order', async () => {
+        const limiter = new EndpointLimiter({ requestsPerSecond: 0, burst: 1, maxConcurrent: 2 });
+        let active = 0;
+        let peak = 0;
+        const order: number[] = [];
+
+        const query = (id: number) => limiter.schedule(ENDPOINT, async () => {
+            active++;
+            peak = Math.max(peak, active);
+            await sleep(20);
+            order.push(id);
+            active--;
+        });
+
+        // Another endpoint has its own queue
+        const other = limiter.schedule('https://other.org/sparql', async () => 'other');
+
+        await Promise.all([1, 2, 3, 4, 5].map(query));
+        expect(peak).toBe(2);
+        expect(order).toEqual([1, 2, 3, 4, 5]);
+        expect(await other).toBe('other');
+    });
+
+    it('should spread requests beyond the burst over time', async () => {
+        // Per-endpoint limits override the defaults
+        const limiter = new EndpointLimiter({ requestsPerSecond: 0, burst: 1, maxConcurrent: 0 });
+        const limits = { requestsPerSecond: 20, burst: 2 };
+        const start = Date.now();
+        const startedAt: number[] = [];
+
+        await Promise.all([0, 1, 2, 3].map(() =>
+            limiter.schedule(ENDPOINT, async () => { startedAt.push(Date.now() - start); }, limits)
+        ));
+
+        // Two start right away, the others wait for a token each (50ms apart)
+        expect(startedAt[1]).toBeLessThan(30);
+        expect(startedAt[2]).toBeGreaterThanOrEqual(40);
+        expect(startedAt[3]).toBeGreaterThanOrEqual(90);
+    });
+
+    it('should drop a cancelled waiter from the queue', async () => {
+        const limiter = new EndpointLimiter({ requestsPerSecond: 0, burst: 1, maxConcurrent: 1 });
+        const controller = new AbortController();
+        let ran = false;
+
+        const first = limiter.schedule(ENDPOINT, () => sleep(50));
+        const cancelled = limiter.schedule(ENDPOINT, async () => { ran = true; }, undefined, controller.signal);
+        controller.abort(new Error('cancelled'));
+
+        await expect(cancelled).rejects.toThrow('cancelled');
+        await first;
+        expect(await limiter.schedule(ENDPOINT, async () => 'next')).toBe('next');
+        expect(ran).toBe(false);
+    });
+});
@@ -0,0 +1,145 @@
+import Logger from "./logger.js";
+
+/**
+ * Request limits of one SPARQL endpoint
+ */
+export interface EndpointLimits {
+    /** Sustained request rate (token bucket refill, 0 = unlimited) */
+    requestsPerSecond: number;
+    /** Requests that may start at once after an idle period (bucket size) */
+    burst: number;
+    /** Queries in flight at the same time (0 = unlimited) */
+    maxConcurrent: number;
+}
+
+interface Waiter {
+    resolve: () => void;
+    reject: (error: unknown) => void;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+}
+
+/** Waits longer than this are logged at info level, shorter ones at debug level */
+const SLOW_WAIT_MS = 1000;
+
+/**
+ * Token bucket plus concurrency queue of one endpoint. Waiters are served in order.
+ */
+class EndpointQueue {
+    private tokens: number;
+    private lastRefill = Date.now();
+    private active = 0;
+    private waiting: Waiter[] = [];
+    private timer?: NodeJS.Timeout;
+
+    constructor(readonly limits: EndpointLimits) {
+        this.tokens = Math.max(1, limits.burst);
+    }
+
+    get queued(): number {
+        return this.waiting.length;
+    }
+
+    acquire(signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const waiter: Waiter = { resolve, reject, signal };
+            if (signal) {
+                waiter.onAbort = () => {
+                    this.waiting = this.waiting.filter((entry) => entry !== waiter);
+                    reject(signal.reason);
+                };
+                signal.addEventListener("abort", waiter.onAbort, { once: true });
+            }
+            this.waiting.push(waiter);
+            this.pump();
+        });
+    }
+
+    release(): void {
+        this.active--;
+        this.pump();
+    }
+
+    private refill(now: number): void {
+        const { requestsPerSecond, burst } = this.limits;
+        this.tokens = Math.min(Math.max(1, burst), this.tokens + ((now - this.lastRefill) / 1000) * requestsPerSecond);
+        this.lastRefill = now;
+    }
+
+    private pump(): void {
+        const { requestsPerSecond, maxConcurrent } = this.limits;
+        const now = Date.now();
+        if (requestsPerSecond > 0) this.refill(now);
+
+        while (this.waiting.length > 0) {
+            if (maxConcurrent > 0 && this.active >= maxConcurrent) return; // release() pumps again
+            if (requestsPerSecond > 0 && this.tokens < 1) break;
+
+            const waiter = this.waiting.shift()!;
+            if (waiter.onAbort) waiter.signal!.removeEventListener("abort", waiter.onAbort);
+            if (requestsPerSecond > 0) this.tokens--;
+            this.active++;
+            waiter.resolve();
+        }
+
+        // Out of tokens: wake up when the next one is available
+        if (this.waiting.length > 0 && !this.timer) {
+            const delay = Math.ceil(((1 - this.tokens) / requestsPerSecond) * 1000);
+            this.timer = setTimeout(() => {
+                this.timer = undefined;
+                this.pump();
+            }, delay);
+        }
+    }
+}
+
+/**
+ * Rate limits and caps concurrent queries per endpoint, shared by all sessions and datasets.
+ * Replaces a fixed delay before every query: fast endpoints are not slowed down, and
+ * rate-limited public endpoints are protected however many sessions query them at once.
+ */
+export class EndpointLimiter {
+    private queues: Map<string, EndpointQueue> = new Map();
+
+    constructor(private defaults: EndpointLimits) {}
+
+    /**
+     * Run `fn` once the endpoint has a free slot and a token.
+     * `limits` apply to the endpoint when it is first used; rejects if `signal` aborts while waiting.
+     */
+    async schedule<T>(endpoint: string, fn: () => Promise<T>, limits?: Partial<EndpointLimits>, signal?: AbortSignal): Promise<T> {
+        if (signal?.aborted) {
+            throw signal.reason;
+        }
+        const queue = this.queue(endpoint, limits);
+
+        const start = Date.now();
+        const queued = queue.queued;
+        await queue.acquire(signal);
+        const waitedMs = Date.now() - start;
+        if (waitedMs >= SLOW_WAIT_MS) {
+            Logger.info(`Waited ${waitedMs}ms for ${endpoint} (${queued} queries ahead)`);
+        } else if (waitedMs > 0) {
+            Logger.debug(`Waited ${waitedMs}ms for ${endpoint} (${queued} queries ahead)`);
+        }
+
+        try {
+            return await fn();
+        } finally {
+            queue.release();
+        }
+    }
+
+    private queue(endpoint: string, limits?: Partial<EndpointLimits>): EndpointQueue {
+        let queue = this.queues.get(endpoint);
+        if (!queue) {
+            const merged = { ...this.defaults };
+            for (const [key, value] of Object.entries(limits ?? {}) as Array<[keyof EndpointLimits, number | undefined]>) {
+                if (value !== undefined) merged[key] = value;
+            }
+            queue = new EndpointQueue(merged);
+            this.queues.set(endpoint, queue);
+        }
+        return queue;
+    }
+}
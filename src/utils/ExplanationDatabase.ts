@@ -6,6 +6,18 @@ import type {
     StepExecutor
 } from "../types/index.js";
 import { generateHumanId } from "./humanId.js";
+import { MemoryStorage } from "./storage/index.js";
+import type { StorageBackend, StorageCodec, StorageCollection } from "./storage/index.js";
+
+/**
+ * Restores Date fields after JSON round-trips through persistent storage
+ */
+function dateCodec<T extends { createdAt: Date }>(): StorageCodec<T> {
+    return {
+        serialize: (value) => value,
+        deserialize: (raw) => ({ ...raw, createdAt: new Date(raw.createdAt) }),
+    };
+}
 
 /**
  * Database for storing and retrieving explanations.
@@ -13,11 +25,45 @@ import { generateHumanId } from "./humanId.js";
  * The executor is set later by ExplanationService (late binding).
  */
 export class ExplanationDatabase {
-    private explanations: Map<string, Explanation> = new Map();
+    private explanations: StorageCollection<Explanation>;
     private sessionExplanations: Map<string, Set<string>> = new Map();
-    private executions: Map<string, ToolExecution> = new Map();
+    private executions: StorageCollection<ToolExecution>;
+    private sessionExecutions: Map<string, Set<string>> = new Map();
     private executor?: StepExecutor;
 
+    constructor(storage: StorageBackend = new MemoryStorage()) {
+        this.explanations = storage.collection("explanations", dateCodec<Explanation>());
+        this.executions = storage.collection("executions", dateCodec<ToolExecution>());
+
+        // Rebuild the session index for explanations loaded from persistent storage
+        for (const explanation of this.explanations.values()) {
+            this.trackSession(this.sessionExplanations, explanation.sessionId, explanation.id);
+        }
+        for (const execution of this.executions.values()) {
+            this.trackSession(this.sessionExecutions, execution.sessionId, execution.id);
+        }
+    }
+
+    private trackSession(index: Map<string, Set<string>>, sessionId: string, id: string): void {
+        if (!index.has(sessionId)) {
+            index.set(sessionId, new Set());
+        }
+        index.get(sessionId)!.add(id);
+    }
+
+    /**
+     * Execution keys referenced by stored explanations
+     */
+    private referencedExecutions(): Set<string> {
+        const referenced = new Set<string>();
+        for (const explanation of this.explanations.values()) {
+            for (const step of explanation.steps) {
+                referenced.add(step.executionKey);
+            }
+        }
+        return referenced;
+    }
+
     /**
      * Set the executor for step execution (called by ExplanationService)
      */
@@ -42,6 +88,7 @@ export class ExplanationDatabase {
             createdAt: new Date()
         };
         this.executions.set(id, execution);
+        this.trackSession(this.sessionExecutions, sessionId, id);
         return id;
     }
 
@@ -77,18 +124,15 @@ export class ExplanationDatabase {
         this.explanations.set(id, explanation);
 
         // Track for session cleanup
-        if (!this.sessionExplanations.has(sessionId)) {
-            this.sessionExplanations.set(sessionId, new Set());
-        }
-        this.sessionExplanations.get(sessionId)!.add(id);
+        this.trackSession(this.sessionExplanations, sessionId, id);
 
         return id;
     }
 
-    private generateId(map: Map<string, unknown>): string {
+    private generateId(collection: StorageCollection<unknown>): string {
         for (let attempt = 0; attempt < 10; attempt += 1) {
             const id = generateHumanId(4);
-            if (!map.has(id)) return id;
+            if (!collection.has(id)) return id;
         }
         throw new Error("Failed to generate unique explanation ID");
     }
@@ -125,16 +169,46 @@ export class ExplanationDatabase {
     }
 
     /**
-     * Clean up explanations for a session
+     * Release a session that has ended.
+     * Execution logs not referenced by any explanation are removed;
+     * explanations stay available until they expire (see sweepExpired).
      */
     cleanupSession(sessionId: string): void {
-        const ids = this.sessionExplanations.get(sessionId);
-        if (ids) {
-            for (const id of ids) {
-                this.explanations.delete(id);
+        const executionIds = this.sessionExecutions.get(sessionId);
+        if (executionIds) {
+            const referenced = this.referencedExecutions();
+            for (const id of executionIds) {
+                if (!referenced.has(id)) {
+                    this.executions.delete(id);
+                }
             }
-            this.sessionExplanations.delete(sessionId);
+            this.sessionExecutions.delete(sessionId);
+        }
+        this.sessionExplanations.delete(sessionId);
+    }
+
+    /**
+     * Remove expired explanations and stale execution logs
+     * @param explanationCutoff - Explanations created before this date are removed
+     * @param executionCutoff - Unreferenced executions created before this date are removed
+     */
+    sweepExpired(explanationCutoff: Date, executionCutoff: Date): { explanations: number; executions: number } {
+        const expiredExplanations = Array.from(this.explanations.values())
+            .filter((explanation) => explanation.createdAt < explanationCutoff);
+        for (const explanation of expiredExplanations) {
+            this.explanations.delete(explanation.id);
+            this.sessionExplanations.get(explanation.sessionId)?.delete(explanation.id);
         }
+
+        const referenced = this.referencedExecutions();
+        const staleExecutions = Array.from(this.executions.values())
+            .filter((execution) => execution.createdAt < executionCutoff && !referenced.has(execution.id));
+        for (const execution of staleExecutions) {
+            this.executions.delete(execution.id);
+            this.sessionExecutions.get(execution.sessionId)?.delete(execution.id);
+        }
+
+        return { explanations: expiredExplanations.length, executions: staleExecutions.length };
     }
 
     /**
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { LinkSigner } from './LinkSigner.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('LinkSigner', () => {
+    const signer = new LinkSigner('test-secret', 90);
+
+    it('should accept its own tokens for the same page', () => {
+        const token = signer.sign('citation', 'alpha-beta-gamma-delta');
+        expect(signer.verify('citation', 'alpha-beta-gamma-delta', token)).toBe(true);
+    });
+
+    it('should reject tokens for another page, kind or secret', () => {
+        const token = signer.sign('citation', 'alpha-beta-gamma-delta');
+        expect(signer.verify('citation', 'other-page-id-here', token)).toBe(false);
+        expect(signer.verify('explain', 'alpha-beta-gamma-delta', token)).toBe(false);
+        expect(new LinkSigner('other-secret', 90).verify('citation', 'alpha-beta-gamma-delta', token)).toBe(false);
+        expect(signer.verify('citation', 'alpha-beta-gamma-delta', undefined)).toBe(false);
+        expect(signer.verify('citation', 'alpha-beta-gamma-delta', 'garbage')).toBe(false);
+    });
+
+    it('should reject expired tokens', () => {
+        const token = signer.sign('explain', 'some-explanation-id-x');
+        expect(signer.verify('explain', 'some-explanation-id-x', token, Date.now() + 89 * DAY_MS)).toBe(true);
+        expect(signer.verify('explain', 'some-explanation-id-x', token, Date.now() + 91 * DAY_MS)).toBe(false);
+    });
+});
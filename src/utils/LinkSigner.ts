@@ -0,0 +1,70 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Kind of user-facing page a link points to
+ */
+export type LinkKind = "citation" | "explain";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Signs and verifies expiring access tokens for citation and explanation links.
+ * Tokens have the form `<expiresAtSeconds>.<base64url HMAC-SHA256>` and are bound
+ * to the page kind and ID, so a token for one citation cannot open another page.
+ */
+export class LinkSigner {
+    constructor(private secret: string, private ttlDays: number) {
+        if (!secret) {
+            throw new Error("LinkSigner requires a non-empty secret");
+        }
+    }
+
+    private signature(kind: LinkKind, id: string, expiresAt: number): string {
+        return createHmac("sha256", this.secret)
+            .update(`${kind}:${id}:${expiresAt}`)
+            .digest("base64url");
+    }
+
+    /**
+     * Create an access token for a page
+     */
+    sign(kind: LinkKind, id: string, now: number = Date.now()): string {
+        const expiresAt = Math.floor((now + this.ttlDays * DAY_MS) / 1000);
+        return `${expiresAt}.${this.signature(kind, id, expiresAt)}`;
+    }
+
+    /**
+     * Check that a token is valid for the page and not expired
+     */
+    verify(kind: LinkKind, id: string, token: string | undefined, now: number = Date.now()): boolean {
+        if (!token) return false;
+        const [expiresAtStr, signature] = token.split(".");
+        const expiresAt = Number(expiresAtStr);
+        if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 < now) {
+            return false;
+        }
+
+        const expected = Buffer.from(this.signature(kind, id, expiresAt));
+        const actual = Buffer.from(signature);
+        return expected.length === actual.length && timingSafeEqual(expected, actual);
+    }
+
+    /**
+     * Append a signed token to a page URL
+     */
+    signUrl(url: string, kind: LinkKind, id: string): string {
+        return `${url}?token=${encodeURIComponent(this.sign(kind, id))}`;
+    }
+}
+
+/**
+ * Build user-facing page links (`/citation/:id`, `/explain/:id`).
+ * Links carry a signed, expiring token unless pages are public (no signer).
+ */
+export function createPageLinker(publicUrl: string, linkSigner?: LinkSigner): (kind: LinkKind, id: string) => string {
+    const baseUrl = publicUrl.replace(/\/$/, "");
+    return (kind, id) => {
+        const url = `${baseUrl}/${kind}/${id}`;
+        return linkSigner ? linkSigner.signUrl(url, kind, id) : url;
+    };
+}
@@ -0,0 +1,74 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { Store, StreamParser } from "n3";
+import { JsonLdParser } from "jsonld-streaming-parser";
+import type { Quad } from "@rdfjs/types";
+import Logger from "./logger.js";
+
+/**
+ * Local RDF files (file:// endpoints) loaded into in-memory N3 stores, so datasets work without network access
+ */
+
+/** Formats N3's parser reads, by file extension */
+const N3_FORMATS: Record<string, string> = {
+    ".ttl": "text/turtle",
+    ".nt": "application/n-triples",
+    ".nq": "application/n-quads",
+    ".trig": "application/trig",
+    ".n3": "text/n3",
+};
+
+const JSONLD_EXTENSIONS = new Set([".jsonld", ".json"]);
+
+/** Loaded (or loading) stores by file URL, shared by all datasets and sessions */
+const stores = new Map<string, Promise<Store>>();
+
+export function isLocalSource(source: string): boolean {
+    return source.startsWith("file:");
+}
+
+function createParser(file: string, baseIRI: string): NodeJS.ReadWriteStream {
+    const extension = path.extname(file).toLowerCase();
+    if (N3_FORMATS[extension]) {
+        return new StreamParser({ format: N3_FORMATS[extension], baseIRI });
+    }
+    if (JSONLD_EXTENSIONS.has(extension)) {
+        return new JsonLdParser({ baseIRI });
+    }
+    throw new Error(
+        `Unsupported RDF file '${file}'. Use one of ${[...Object.keys(N3_FORMATS), ...JSONLD_EXTENSIONS].join(", ")}.`
+    );
+}
+
+async function load(source: string): Promise<Store> {
+    const file = fileURLToPath(source);
+    const start = Date.now();
+    const parser = createParser(file, source);
+    const store = new Store();
+
+    await new Promise<void>((resolve, reject) => {
+        const input = fs.createReadStream(file);
+        input.on("error", (error) => reject(new Error(`Cannot read RDF file '${file}': ${error.message}`)));
+        input.pipe(parser)
+            .on("data", (quad: Quad) => store.addQuad(quad))
+            .on("error", (error: Error) => reject(new Error(`Cannot parse RDF file '${file}': ${error.message}`)))
+            .on("end", resolve);
+    });
+
+    Logger.info(`Loaded ${store.size} triples from ${file} in ${Date.now() - start}ms`);
+    return store;
+}
+
+/**
+ * The store of a file:// source, loaded on first use. A file that failed to load is read again next time.
+ */
+export function loadLocalSource(source: string): Promise<Store> {
+    let store = stores.get(source);
+    if (!store) {
+        store = load(source);
+        store.catch(() => stores.delete(source));
+        stores.set(source, store);
+    }
+    return store;
+}
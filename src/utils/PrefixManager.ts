@@ -1,3 +1,5 @@
+import Logger from "./logger.js";
+
 /**
  * Manages URI prefixes for compressed output and automatic query enhancement
  */
@@ -10,9 +12,9 @@ export class PrefixManager {
   private static instance: PrefixManager | null = null;
   private prefixMap: PrefixMapping;
 
-  private constructor() {
+  private constructor(prefixMap?: PrefixMapping) {
     // Built-in common prefixes
-    this.prefixMap = {
+    this.prefixMap = prefixMap ?? {
       'dbo': 'http://dbpedia.org/ontology/',
       'dbr': 'http://dbpedia.org/resource/',
       'dbp': 'http://dbpedia.org/property/',
@@ -26,9 +28,6 @@ export class PrefixManager {
       'dc': 'http://purl.org/dc/elements/1.1/',
       'dct': 'http://purl.org/dc/terms/',
     };
-
-    // Load custom prefixes from environment
-    this.loadCustomPrefixes();
   }
 
   public static getInstance(): PrefixManager {
@@ -38,25 +37,27 @@ export class PrefixManager {
     return PrefixManager.instance;
   }
 
-  private loadCustomPrefixes(): void {
-    const customPrefixes = process.env.CUSTOM_PREFIXES;
-    if (!customPrefixes) return;
-
-    try {
-      // Parse format: "foaf:<http://xmlns.com/foaf/0.1/>,schema:<http://schema.org/>"
-      const pairs = customPrefixes.split(',');
-      for (const pair of pairs) {
-        const match = pair.trim().match(/^(\w+):<(.+)>$/);
-        if (match) {
-          const [, prefix, uri] = match;
-          this.prefixMap[prefix] = uri;
-        }
+  /**
+   * Register additional prefixes from the configuration, shared by all datasets.
+   * An existing prefix bound to a different namespace is overwritten.
+   */
+  public registerPrefixes(prefixes: Record<string, string>): void {
+    for (const [prefix, uri] of Object.entries(prefixes)) {
+      if (this.prefixMap[prefix] && this.prefixMap[prefix] !== uri) {
+        Logger.warn(`Prefix '${prefix}:' redefined from <${this.prefixMap[prefix]}> to <${uri}>`);
       }
-    } catch (error) {
-      console.error('Error parsing CUSTOM_PREFIXES:', error);
+      this.prefixMap[prefix] = uri;
     }
   }
 
+  /**
+   * A separate manager with these prefixes added, for one dataset.
+   * A dataset may bind a prefix to another namespace without affecting the other datasets.
+   */
+  public extend(prefixes: Record<string, string> = {}): PrefixManager {
+    return new PrefixManager({ ...this.prefixMap, ...prefixes });
+  }
+
   /**
    * Compress a URI using known prefixes
    */
@@ -69,38 +70,6 @@ export class PrefixManager {
     return uri; // Return original if no prefix matches
   }
 
-  /**
-   * Get all PREFIX declarations for SPARQL queries
-   */
-  private getPrefixDeclarations(): string {
-    return Object.entries(this.prefixMap)
-      .map(([prefix, uri]) => `PREFIX ${prefix}: <${uri}>`)
-      .join('\n');
-  }
-
-  /**
-   * Add PREFIX declarations to a SPARQL query
-   */
-  public addPrefixesToQuery(query: string): string {
-    // Only add prefixes that aren't already declared in the query
-    const existingPrefixes = new Set<string>();
-    const prefixRegex = /PREFIX\s+(\w+):/gi;
-    let match;
-    while ((match = prefixRegex.exec(query)) !== null) {
-      existingPrefixes.add(match[1].toLowerCase());
-    }
-
-    const newPrefixes = Object.entries(this.prefixMap)
-      .filter(([prefix]) => !existingPrefixes.has(prefix.toLowerCase()))
-      .map(([prefix, uri]) => `PREFIX ${prefix}: <${uri}>`)
-      .join('\n');
-
-    if (newPrefixes.length === 0) {
-      return query;
-    }
-    return `${newPrefixes}\n\n${query}`;
-  }
-
   /**
    * Compress all URIs in text and prepend prefix declarations for used prefixes
    */
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { QueryCache, normalizeQuery, withoutQueryCache } from './QueryCache.js';
+import { currentQueryContext, runWithQueryContext } from './QueryContext.js';
+
+const ENDPOINT = 'https://example.org/sparql';
+
+describe('QueryCache', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should share results between queries that only differ in whitespace', async () => {
+        const cache = new QueryCache({ maxEntries: 10, ttlSeconds: 60 });
+        const load = vi.fn(async () => ['result']);
+
+        const first = QueryCache.key('select', 'SELECT ?s\n  WHERE { ?s ?p "two  spaces" }', [ENDPOINT]);
+        const second = QueryCache.key('select', 'SELECT ?s WHERE {\t?s ?p "two  spaces" }', [ENDPOINT]);
+        expect(first).toBe(second);
+
+        // Concurrent identical lookups share the pending request
+        await Promise.all([cache.getOrLoad(first, ENDPOINT, 60, load), cache.getOrLoad(second, ENDPOINT, 60, load)]);
+        expect(await cache.getOrLoad(first, ENDPOINT, 60, load)).toEqual(['result']);
+        expect(load).toHaveBeenCalledTimes(1);
+        expect(cache.stats()).toEqual({ entries: 1, hits: 2, misses: 1, evictions: 0 });
+
+        expect(normalizeQuery('?s  <http://a.org/x>   "a  b"')).toBe('?s <http://a.org/x> "a  b"');
+    });
+
+    it('should expire entries after their TTL and evict the least recently used', async () => {
+        vi.useFakeTimers();
+        const cache = new QueryCache({ maxEntries: 2, ttlSeconds: 60 });
+        const load = (value: string) => vi.fn(async () => value);
+
+        const a = load('a');
+        await cache.getOrLoad('a', ENDPOINT, 10, a);
+        await cache.getOrLoad('b', ENDPOINT, 60, load('b'));
+        vi.advanceTimersByTime(11_000);
+        await cache.getOrLoad('a', ENDPOINT, 10, a);
+        expect(a).toHaveBeenCalledTimes(2);
+
+        // 'b' is now the least recently used entry
+        const b = load('b');
+        await cache.getOrLoad('c', ENDPOINT, 60, load('c'));
+        await cache.getOrLoad('b', ENDPOINT, 60, b);
+        expect(b).toHaveBeenCalledTimes(1);
+        expect(cache.stats().evictions).toBe(2);
+    });
+
+    it('should bypass cached results on request and never cache failures', async () => {
+        const cache = new QueryCache({ maxEntries: 10, ttlSeconds: 60 });
+        const load = vi.fn(async () => 'fresh');
+
+        await cache.getOrLoad('key', ENDPOINT, 60, load);
+        await withoutQueryCache(() => cache.getOrLoad('key', ENDPOINT, 60, load));
+        expect(load).toHaveBeenCalledTimes(2);
+
+        const failing = vi.fn(async () => { throw new Error('endpoint down'); });
+        await expect(cache.getOrLoad('broken', ENDPOINT, 60, failing)).rejects.toThrow('endpoint down');
+        await expect(cache.getOrLoad('broken', ENDPOINT, 60, failing)).rejects.toThrow('endpoint down');
+        expect(failing).toHaveBeenCalledTimes(2);
+
+        // A TTL of 0 disables caching for an endpoint
+        await cache.getOrLoad('uncached', ENDPOINT, 0, load);
+        await cache.getOrLoad('uncached', ENDPOINT, 0, load);
+        expect(load).toHaveBeenCalledTimes(4);
+    });
+
+    it('should keep a shared load running for the callers that did not cancel', async () => {
+        const cache = new QueryCache({ maxEntries: 10, ttlSeconds: 60 });
+        let finish!: (value: string) => void;
+        let loadSignal: AbortSignal | undefined;
+        const load = vi.fn(() => {
+            loadSignal = currentQueryContext().signal;
+            return new Promise<string>((resolve) => { finish = resolve; });
+        });
+        const lookup = (signal: AbortSignal) => runWithQueryContext({ signal }, () => cache.getOrLoad('key', ENDPOINT, 60, load));
+
+        const first = new AbortController();
+        const second = new AbortController();
+        const cancelled = lookup(first.signal);
+        const waiting = lookup(second.signal);
+        first.abort(new Error('first gave up'));
+
+        await expect(cancelled).rejects.toThrow('first gave up');
+        expect(loadSignal?.aborted).toBe(false);
+        finish('result');
+        expect(await waiting).toBe('result');
+        expect(load).toHaveBeenCalledTimes(1);
+
+        // The load is cancelled once nobody waits for it, and not cached
+        const only = new AbortController();
+        const abandoned = runWithQueryContext({ signal: only.signal }, () => cache.getOrLoad('other', ENDPOINT, 60, load));
+        only.abort(new Error('gave up'));
+        await expect(abandoned).rejects.toThrow('gave up');
+        expect(loadSignal?.aborted).toBe(true);
+        expect(cache.stats().entries).toBe(1);
+    });
+});
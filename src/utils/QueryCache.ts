@@ -0,0 +1,166 @@
+import { queryCacheLookups } from "./metrics.js";
+import { currentQueryContext, runWithQueryContext } from "./QueryContext.js";
+
+interface CacheEntry {
+    value: Promise<unknown>;
+    expiresAt: number;
+    /** Cancels the load once every caller waiting for it has given up */
+    controller: AbortController;
+    /** Callers waiting for the pending load */
+    waiters: number;
+    settled: boolean;
+}
+
+/**
+ * Size and default lifetime of the SPARQL result cache
+ */
+export interface QueryCacheOptions {
+    /** Least recently used results are evicted beyond this many (0 = caching disabled) */
+    maxEntries: number;
+    /** Lifetime of a cached result unless the dataset sets its own (0 = caching disabled) */
+    ttlSeconds: number;
+}
+
+export interface QueryCacheStats {
+    entries: number;
+    hits: number;
+    misses: number;
+    evictions: number;
+}
+
+/**
+ * Run `fn` with fresh SPARQL results: lookups inside it skip the cache (results are still stored).
+ * Used when a user re-executes a step to verify it.
+ */
+export function withoutQueryCache<T>(fn: () => Promise<T>): Promise<T> {
+    return runWithQueryContext({ bypassCache: true }, fn);
+}
+
+/**
+ * Collapse whitespace outside of string literals and IRIs, so queries that only
+ * differ in formatting share a cache entry.
+ */
+export function normalizeQuery(query: string): string {
+    return query
+        .replace(/("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|<[^<>\s]*>)|\s+/g, (match, literal) => literal ?? " ")
+        .trim();
+}
+
+/**
+ * LRU cache with per-entry TTL for SPARQL results, shared by all sessions and datasets.
+ * Stores the pending promise, so concurrent identical queries only hit the endpoint once.
+ * A shared load does not run under any caller's signal: a caller that cancels only stops
+ * waiting, and the load is cancelled when no caller is left.
+ */
+export class QueryCache {
+    /** Insertion order doubles as recency order (entries are re-inserted on hit) */
+    private entries: Map<string, CacheEntry> = new Map();
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+
+    constructor(private options: QueryCacheOptions) {}
+
+    get defaultTtlSeconds(): number {
+        return this.options.ttlSeconds;
+    }
+
+    /**
+     * Key of a query against a list of sources. Expects the prefix-expanded query.
+     */
+    static key(kind: string, query: string, sources: Array<string>): string {
+        return `${kind}\n${[...sources].sort().join("\n")}\n${normalizeQuery(query)}`;
+    }
+
+    /**
+     * Return the cached result for `key` or run `load` and cache its result for `ttlSeconds`.
+     * Failed loads are not cached. `dataset` labels the lookup in the metrics.
+     * Rejects with the reason of the current query context's signal if it aborts first.
+     */
+    async getOrLoad<T>(key: string, dataset: string, ttlSeconds: number, load: () => Promise<T>): Promise<T> {
+        if (this.options.maxEntries <= 0 || ttlSeconds <= 0) {
+            return load();
+        }
+
+        const now = Date.now();
+        const cached = this.entries.get(key);
+        this.entries.delete(key);
+        if (cached && cached.expiresAt > now && !currentQueryContext().bypassCache) {
+            this.entries.set(key, cached);
+            this.hits++;
+            queryCacheLookups.inc({ dataset, result: "hit" });
+            return this.wait(key, cached) as Promise<T>;
+        }
+
+        this.misses++;
+        queryCacheLookups.inc({ dataset, result: "miss" });
+        const controller = new AbortController();
+        const value = runWithQueryContext({ signal: controller.signal }, load);
+        const entry: CacheEntry = { value, expiresAt: now + ttlSeconds * 1000, controller, waiters: 0, settled: false };
+        this.entries.set(key, entry);
+        this.evict(now);
+
+        value.then(
+            () => { entry.settled = true; },
+            () => {
+                entry.settled = true;
+                if (this.entries.get(key) === entry) this.entries.delete(key);
+            }
+        );
+        return this.wait(key, entry) as Promise<T>;
+    }
+
+    /**
+     * Wait for an entry's value until the current caller's signal aborts
+     */
+    private wait(key: string, entry: CacheEntry): Promise<unknown> {
+        const signal = currentQueryContext().signal;
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason);
+        }
+        entry.waiters++;
+        if (!signal || entry.settled) {
+            return entry.value;
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                entry.waiters--;
+                if (entry.waiters === 0 && !entry.settled) {
+                    // Later lookups start over instead of waiting for the cancelled load
+                    if (this.entries.get(key) === entry) this.entries.delete(key);
+                    entry.controller.abort(signal.reason);
+                }
+                reject(signal.reason);
+            };
+            signal.addEventListener("abort", onAbort, { once: true });
+            entry.value.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+        });
+    }
+
+    /**
+     * Drop expired entries, then the least recently used ones beyond the size cap
+     */
+    private evict(now: number): void {
+        for (const [key, entry] of this.entries) {
+            if (this.entries.size <= this.options.maxEntries) break;
+            if (entry.expiresAt <= now) {
+                this.entries.delete(key);
+                this.evictions++;
+            }
+        }
+        for (const key of this.entries.keys()) {
+            if (this.entries.size <= this.options.maxEntries) break;
+            this.entries.delete(key);
+            this.evictions++;
+        }
+    }
+
+    clear(): void {
+        this.entries.clear();
+    }
+
+    stats(): QueryCacheStats {
+        return { entries: this.entries.size, hits: this.hits, misses: this.misses, evictions: this.evictions };
+    }
+}
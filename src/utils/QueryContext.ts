@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Per-call settings that reach QueryService through the services in between
+ * (inspection, search, ...) without changing their signatures.
+ */
+export interface QueryContext {
+    /** Skip cached results (results are still stored) */
+    bypassCache?: boolean;
+    /** Cancels the running SPARQL requests, e.g. when the MCP client cancels the tool call */
+    signal?: AbortSignal;
+}
+
+const storage = new AsyncLocalStorage<QueryContext>();
+
+/**
+ * Run `fn` with `context` merged into the current query context
+ */
+export function runWithQueryContext<T>(context: QueryContext, fn: () => Promise<T>): Promise<T> {
+    return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+export function currentQueryContext(): QueryContext {
+    return storage.getStore() ?? {};
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CitationDatabase } from './CitationDatabase.js';
+import { ExplanationDatabase } from './ExplanationDatabase.js';
+import { RetentionSweeper } from './RetentionSweeper.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('Retention', () => {
+    let citationDb: CitationDatabase;
+    let explanationDb: ExplanationDatabase;
+
+    beforeEach(() => {
+        citationDb = new CitationDatabase();
+        explanationDb = new ExplanationDatabase();
+    });
+
+    it('should keep activated citations and referenced executions when the session ends', () => {
+        const used = explanationDb.logExecution('s1', 'fact', { subject: 'a' });
+        const unused = explanationDb.logExecution('s1', 'search', { query: 'b' });
+        const active = citationDb.storeCitation('s1', [], used);
+        const inactive = citationDb.storeCitation('s1', [], unused);
+        citationDb.activateCitation(active);
+        const explanationId = explanationDb.storeExplanation('s1', 'T', 'A', [
+            { description: 'd', executionKey: used, toolName: 'fact', toolParams: {} },
+        ], true);
+
+        citationDb.cleanupSession('s1');
+        explanationDb.cleanupSession('s1');
+
+        expect(citationDb.getCitation(active)).toBeDefined();
+        expect(citationDb.getCitation(inactive)).toBeUndefined();
+        expect(explanationDb.getExecution(used)).toBeDefined();
+        expect(explanationDb.getExecution(unused)).toBeUndefined();
+        expect(explanationDb.getExplanation(explanationId)).toBeDefined();
+    });
+
+    it('should expire published data after the retention period', () => {
+        const executionId = explanationDb.logExecution('s1', 'fact', {});
+        const citationId = citationDb.storeCitation('s1', [], executionId);
+        citationDb.activateCitation(citationId);
+        const explanationId = explanationDb.storeExplanation('s1', 'T', 'A', [
+            { description: 'd', executionKey: executionId, toolName: 'fact', toolParams: {} },
+        ], true);
+
+        const sweeper = new RetentionSweeper(citationDb, explanationDb, {
+            retentionDays: 90,
+            unusedRetentionHours: 24,
+            sweepIntervalMinutes: 60,
+        });
+
+        sweeper.sweep(new Date(Date.now() + 30 * DAY_MS));
+        expect(citationDb.getCitation(citationId)).toBeDefined();
+        expect(explanationDb.getExplanation(explanationId)).toBeDefined();
+        expect(explanationDb.getExecution(executionId)).toBeDefined();
+
+        sweeper.sweep(new Date(Date.now() + 91 * DAY_MS));
+        expect(citationDb.getCitation(citationId)).toBeUndefined();
+        expect(explanationDb.getExplanation(explanationId)).toBeUndefined();
+        expect(explanationDb.getExecution(executionId)).toBeUndefined();
+    });
+
+    it('should collect leftovers of sessions that never ended', () => {
+        const executionId = explanationDb.logExecution('s1', 'search', {});
+        const citationId = citationDb.storeCitation('s1', []);
+
+        const sweeper = new RetentionSweeper(citationDb, explanationDb, {
+            retentionDays: 0,
+            unusedRetentionHours: 24,
+            sweepIntervalMinutes: 60,
+        });
+        sweeper.sweep(new Date(Date.now() + 2 * DAY_MS));
+
+        expect(citationDb.getCitation(citationId)).toBeUndefined();
+        expect(explanationDb.getExecution(executionId)).toBeUndefined();
+    });
+});
@@ -0,0 +1,71 @@
+import Logger from "./logger.js";
+import { CitationDatabase } from "./CitationDatabase.js";
+import { ExplanationDatabase } from "./ExplanationDatabase.js";
+import type { StorageEventStore } from "./StorageEventStore.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * How long published and throwaway data is kept
+ */
+export interface RetentionPolicy {
+    /** Lifetime of activated citations and explanations in days (0 = keep forever) */
+    retentionDays: number;
+    /** Lifetime of inactive citation keys, unused execution logs and buffered SSE events in hours, for sessions that never ended cleanly */
+    unusedRetentionHours: number;
+    /** How often the sweeper runs in minutes */
+    sweepIntervalMinutes: number;
+}
+
+/**
+ * Periodically removes expired citations, explanations, execution logs and SSE events.
+ * Session end already drops throwaway data; the sweeper enforces the retention
+ * period and catches leftovers from sessions that never closed (e.g. after a crash,
+ * or suspended by a shutdown and never re-initialized).
+ */
+export class RetentionSweeper {
+    private timer?: NodeJS.Timeout;
+
+    constructor(
+        private citationDb: CitationDatabase,
+        private explanationDb: ExplanationDatabase,
+        private policy: RetentionPolicy,
+        private eventStore?: StorageEventStore
+    ) { }
+
+    start(): void {
+        if (this.timer) return;
+        this.sweep();
+        this.timer = setInterval(() => this.sweep(), this.policy.sweepIntervalMinutes * 60 * 1000);
+        // Never keep the process alive just for the sweeper
+        this.timer.unref();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    sweep(now: Date = new Date()): void {
+        const publishedCutoff = this.policy.retentionDays > 0
+            ? new Date(now.getTime() - this.policy.retentionDays * DAY_MS)
+            : new Date(0);
+        const unusedCutoff = new Date(now.getTime() - this.policy.unusedRetentionHours * HOUR_MS);
+
+        try {
+            const citations = this.citationDb.sweepExpired(publishedCutoff, unusedCutoff);
+            const { explanations, executions } = this.explanationDb.sweepExpired(publishedCutoff, unusedCutoff);
+            this.eventStore?.pruneExpired(now.getTime());
+            const eventSessions = this.eventStore?.sweepInactiveSessions(unusedCutoff.getTime()) ?? 0;
+
+            if (citations + explanations + executions + eventSessions > 0) {
+                Logger.info("Retention sweep removed expired data", { citations, explanations, executions, eventSessions });
+            }
+        } catch (error) {
+            Logger.error("Retention sweep failed", { error });
+        }
+    }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import type { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SessionManager } from './SessionManager.js';
+
+const MINUTE = 60_000;
+
+const fakeTransport = () => ({ close: vi.fn(async () => {}) }) as unknown as StreamableHTTPServerTransport;
+
+describe('SessionManager', () => {
+    let closed: string[];
+    let sessions: SessionManager;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        closed = [];
+        sessions = new SessionManager({ idleTimeoutMinutes: 10, maxSessions: 2 }, (sid) => closed.push(sid));
+    });
+
+    afterEach(() => {
+        sessions.stop();
+        vi.useRealTimers();
+    });
+
+    it('should evict sessions idle past the timeout on its timer', async () => {
+        const idle = fakeTransport();
+        sessions.add('idle', idle);
+        sessions.add('busy', fakeTransport());
+        sessions.start();
+
+        await vi.advanceTimersByTimeAsync(6 * MINUTE);
+        sessions.get('busy');
+        await vi.advanceTimersByTimeAsync(5 * MINUTE);
+
+        expect(idle.close).toHaveBeenCalledOnce();
+        expect(closed).toEqual(['idle']);
+        expect(sessions.get('idle')).toBeUndefined();
+        expect(sessions.size).toBe(1);
+    });
+
+    it('should evict idle sessions before refusing a new one', async () => {
+        sessions.add('a', fakeTransport());
+        sessions.add('b', fakeTransport());
+        expect(await sessions.hasCapacity()).toBe(false);
+        expect(closed).toEqual([]);
+
+        vi.advanceTimersByTime(11 * MINUTE);
+        sessions.get('b');
+        expect(await sessions.hasCapacity()).toBe(true);
+        expect(closed).toEqual(['a']);
+    });
+
+    it('should not evict a session while a request is in flight', async () => {
+        sessions.add('streaming', fakeTransport());
+        const response = new EventEmitter();
+        sessions.get('streaming', response);
+
+        vi.advanceTimersByTime(30 * MINUTE);
+        await sessions.evictIdle();
+        expect(sessions.size).toBe(1);
+
+        // Idle time counts from the end of the request
+        response.emit('close');
+        vi.advanceTimersByTime(9 * MINUTE);
+        await sessions.evictIdle();
+        expect(sessions.size).toBe(1);
+
+        vi.advanceTimersByTime(MINUTE);
+        await sessions.evictIdle();
+        expect(closed).toEqual(['streaming']);
+    });
+
+    it('should release per-session state once, but not while suspending', async () => {
+        sessions.add('a', fakeTransport());
+        sessions.add('b', fakeTransport());
+
+        sessions.remove('a');
+        sessions.remove('a');
+        expect(closed).toEqual(['a']);
+
+        const b = sessions.get('b')!;
+        await sessions.suspendAll();
+        expect(b.close).toHaveBeenCalledOnce();
+        expect(closed).toEqual(['a']);
+        expect(sessions.size).toBe(0);
+
+        // Sessions added after a suspension are released as usual
+        sessions.add('c', fakeTransport());
+        await sessions.close('c');
+        expect(closed).toEqual(['a', 'c']);
+    });
+});
@@ -0,0 +1,160 @@
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import Logger from "./logger.js";
+
+interface SessionEntry {
+    transport: StreamableHTTPServerTransport;
+    lastActivity: number;
+    /** Requests (tool calls, SSE streams) still being answered, the session is not idle while there are any */
+    inFlight: number;
+}
+
+/** The part of an HTTP response the manager watches: it emits 'close' once the response is finished or aborted */
+export interface PendingResponse {
+    once(event: "close", listener: () => void): unknown;
+}
+
+/**
+ * Limits for concurrent HTTP sessions
+ */
+export interface SessionLimits {
+    /** Sessions without requests for this many minutes are evicted (0 = never) */
+    idleTimeoutMinutes: number;
+    /** Maximum number of concurrent sessions (0 = unlimited) */
+    maxSessions: number;
+}
+
+/**
+ * Tracks Streamable HTTP transports by session ID.
+ * Evicts idle sessions so abandoned clients do not leak their transport,
+ * event store and McpServer instance.
+ */
+export class SessionManager {
+    private sessions: Map<string, SessionEntry> = new Map();
+    private timer?: NodeJS.Timeout;
+    /** Set while shutting down: transports close, but per-session state is kept for resumption */
+    private suspending = false;
+
+    /**
+     * @param limits - Idle timeout and capacity
+     * @param onSessionClosed - Called exactly once per session when it is removed (for per-session cleanup)
+     */
+    constructor(
+        private limits: SessionLimits,
+        private onSessionClosed: (sessionId: string) => void
+    ) { }
+
+    start(): void {
+        if (this.timer || this.limits.idleTimeoutMinutes <= 0) return;
+        // Check a few times per timeout window, at most once a minute
+        const intervalMs = Math.min(60_000, (this.limits.idleTimeoutMinutes * 60_000) / 4);
+        this.timer = setInterval(() => void this.evictIdle(), intervalMs);
+        this.timer.unref();
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    add(sessionId: string, transport: StreamableHTTPServerTransport): void {
+        this.sessions.set(sessionId, { transport, lastActivity: Date.now(), inFlight: 0 });
+    }
+
+    /**
+     * Get a session's transport and mark the session as active. With `response`, the session
+     * stays active until that response closes (long tool calls and SSE streams are not evicted).
+     */
+    get(sessionId: string | undefined, response?: PendingResponse): StreamableHTTPServerTransport | undefined {
+        if (!sessionId) return undefined;
+        const entry = this.sessions.get(sessionId);
+        if (!entry) return undefined;
+        entry.lastActivity = Date.now();
+        if (response) {
+            entry.inFlight += 1;
+            response.once("close", () => {
+                entry.inFlight -= 1;
+                entry.lastActivity = Date.now();
+            });
+        }
+        return entry.transport;
+    }
+
+    /**
+     * Forget a session and release its per-session state. Safe to call more than once.
+     */
+    remove(sessionId: string): void {
+        if (!this.sessions.delete(sessionId)) return;
+        if (!this.suspending) this.onSessionClosed(sessionId);
+    }
+
+    /**
+     * Whether a new session can be accepted. Evicts idle sessions first when at capacity.
+     */
+    async hasCapacity(): Promise<boolean> {
+        if (this.limits.maxSessions <= 0 || this.sessions.size < this.limits.maxSessions) {
+            return true;
+        }
+        await this.evictIdle();
+        return this.sessions.size < this.limits.maxSessions;
+    }
+
+    /**
+     * Close sessions that have been idle longer than the timeout and have no request in flight
+     */
+    async evictIdle(now: number = Date.now()): Promise<void> {
+        if (this.limits.idleTimeoutMinutes <= 0) return;
+        const timeoutMs = this.limits.idleTimeoutMinutes * 60_000;
+
+        for (const [sessionId, entry] of Array.from(this.sessions.entries())) {
+            const idleMs = now - entry.lastActivity;
+            if (idleMs < timeoutMs || entry.inFlight > 0) continue;
+
+            Logger.info(`Evicting idle session ${sessionId}`, {
+                idleSeconds: Math.round(idleMs / 1000),
+                activeSessions: this.sessions.size,
+            });
+            await this.close(sessionId);
+        }
+    }
+
+    /**
+     * Close a session's transport and release its state
+     */
+    async close(sessionId: string): Promise<void> {
+        const entry = this.sessions.get(sessionId);
+        if (!entry) return;
+        try {
+            await entry.transport.close();
+        } catch (error) {
+            Logger.info(`Error closing transport for session ${sessionId}`, { error });
+        }
+        // The transport's onclose normally does this already
+        this.remove(sessionId);
+    }
+
+    async closeAll(): Promise<void> {
+        for (const sessionId of Array.from(this.sessions.keys())) {
+            Logger.info(`Closing transport for session ${sessionId}`);
+            await this.close(sessionId);
+        }
+    }
+
+    /**
+     * Close all transports without releasing per-session state, so clients can
+     * resume their sessions once the server is back (used on shutdown)
+     */
+    async suspendAll(): Promise<void> {
+        this.suspending = true;
+        try {
+            await this.closeAll();
+        } finally {
+            this.suspending = false;
+        }
+    }
+
+    get size(): number {
+        return this.sessions.size;
+    }
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { StorageEventStore } from './StorageEventStore.js';
+import { FileStorage, MemoryStorage } from './storage/index.js';
+
+const message = (id: number): JSONRPCMessage => ({ jsonrpc: '2.0', id, result: {} });
+
+async function replay(store: ReturnType<StorageEventStore['forSession']>, lastEventId: string) {
+    const sent: JSONRPCMessage[] = [];
+    const streamId = await store.replayEventsAfter(lastEventId, {
+        send: async (_eventId, msg) => { sent.push(msg); },
+    });
+    return { streamId, ids: sent.map((m) => (m as { id: number }).id) };
+}
+
+describe('StorageEventStore', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kg-mcp-events-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should replay later events of the same stream only', async () => {
+        const store = new StorageEventStore(new MemoryStorage(), { maxEventsPerStream: 0, maxAgeMinutes: 0 });
+        const session = store.forSession('s1');
+
+        const first = await session.storeEvent('_GET_stream', message(1));
+        await session.storeEvent('other', message(2));
+        await session.storeEvent('_GET_stream', message(3));
+
+        expect(await replay(session, first)).toEqual({ streamId: '_GET_stream', ids: [3] });
+        // Stream IDs repeat across sessions, but events never leak between them
+        expect(await replay(store.forSession('s2'), first)).toEqual({ streamId: '', ids: [] });
+    });
+
+    it('should drop the oldest events beyond the per-stream cap and expired events', async () => {
+        const store = new StorageEventStore(new MemoryStorage(), { maxEventsPerStream: 2, maxAgeMinutes: 10 });
+        const session = store.forSession('s1');
+
+        const first = await session.storeEvent('stream', message(1));
+        const second = await session.storeEvent('stream', message(2));
+        await session.storeEvent('stream', message(3));
+
+        expect(store.size).toBe(2);
+        expect(await replay(session, first)).toEqual({ streamId: '', ids: [] });
+        expect(await replay(session, second)).toEqual({ streamId: 'stream', ids: [3] });
+
+        expect(store.pruneExpired(Date.now() + 11 * 60_000)).toBe(2);
+        expect(store.hasSession('s1')).toBe(false);
+    });
+
+    it('should resume streams after a restart and forget closed sessions', async () => {
+        const limits = { maxEventsPerStream: 100, maxAgeMinutes: 60 };
+        const before = new StorageEventStore(new FileStorage(dir), limits);
+        const first = await before.forSession('s1').storeEvent('stream', message(1));
+        await before.forSession('s1').storeEvent('stream', message(2));
+        await before.forSession('s2').storeEvent('stream', message(9));
+        // Events are written in batches
+        expect(new StorageEventStore(new FileStorage(dir), limits).hasSession('s1')).toBe(false);
+        before.flush();
+
+        const after = new StorageEventStore(new FileStorage(dir), limits);
+        expect(after.hasSession('s1')).toBe(true);
+        expect(await replay(after.forSession('s1'), first)).toEqual({ streamId: 'stream', ids: [2] });
+
+        // New event IDs keep increasing after the restart
+        const next = await after.forSession('s1').storeEvent('stream', message(3));
+        expect(await replay(after.forSession('s1'), first)).toEqual({ streamId: 'stream', ids: [2, 3] });
+        expect(next).not.toBe(first);
+
+        after.deleteSession('s2');
+        expect(new StorageEventStore(new FileStorage(dir), limits).hasSession('s2')).toBe(false);
+    });
+
+    it('should sweep sessions that sent nothing for a while', async () => {
+        const store = new StorageEventStore(new FileStorage(dir), { maxEventsPerStream: 0, maxAgeMinutes: 0 });
+        await store.forSession('suspended').storeEvent('stream', message(1));
+        store.flush();
+        await store.forSession('active').storeEvent('stream', message(2));
+
+        expect(store.sweepInactiveSessions(Date.now() - 60_000)).toBe(0);
+        expect(store.sweepInactiveSessions(Date.now() + 1)).toBe(2);
+        expect(store.size).toBe(0);
+        store.flush();
+        expect(new StorageEventStore(new FileStorage(dir), { maxEventsPerStream: 0, maxAgeMinutes: 0 }).size).toBe(0);
+    });
+});
@@ -0,0 +1,206 @@
+import type { EventId, EventStore, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import Logger from "./logger.js";
+import type { StorageBackend, StorageCollection } from "./storage/index.js";
+
+interface StoredEvent {
+    id: EventId;
+    sessionId: string;
+    streamId: StreamId;
+    /** Global insertion order (event IDs are not sortable) */
+    seq: number;
+    createdAt: number;
+    message: JSONRPCMessage;
+}
+
+/**
+ * Caps for buffered SSE events
+ */
+export interface EventStoreLimits {
+    /** Oldest events of a stream are dropped beyond this many (0 = unlimited) */
+    maxEventsPerStream: number;
+    /** Events older than this are dropped (0 = keep until the session ends) */
+    maxAgeMinutes: number;
+}
+
+const PRUNE_INTERVAL_MS = 60_000;
+/** New events are written to storage in batches, at most this long after they were sent */
+const FLUSH_DELAY_MS = 1000;
+
+/**
+ * Buffers SSE events for `Last-Event-ID` resumption in the shared storage backend.
+ * One store serves all sessions; `forSession()` returns the per-transport view.
+ * Sending an event never waits for storage: new events are kept in memory and written in batches
+ * (call `flush()` before exiting). With persistent storage, buffered events survive a restart.
+ */
+export class StorageEventStore {
+    private events: StorageCollection<StoredEvent>;
+    /** Events not written to storage yet */
+    private pending: Map<EventId, StoredEvent> = new Map();
+    private flushTimer?: NodeJS.Timeout;
+    /** Event IDs per session and stream, oldest first */
+    private streams: Map<string, Map<StreamId, EventId[]>> = new Map();
+    private nextSeq = 0;
+    private lastPrune = 0;
+
+    constructor(storage: StorageBackend, private limits: EventStoreLimits) {
+        this.events = storage.collection("events");
+
+        // Rebuild the stream index for events loaded from persistent storage
+        const loaded = Array.from(this.events.values()).sort((a, b) => a.seq - b.seq);
+        for (const event of loaded) {
+            this.stream(event.sessionId, event.streamId).push(event.id);
+            this.nextSeq = event.seq + 1;
+        }
+        this.pruneExpired();
+    }
+
+    private stream(sessionId: string, streamId: StreamId): EventId[] {
+        if (!this.streams.has(sessionId)) {
+            this.streams.set(sessionId, new Map());
+        }
+        const sessionStreams = this.streams.get(sessionId)!;
+        if (!sessionStreams.has(streamId)) {
+            sessionStreams.set(streamId, []);
+        }
+        return sessionStreams.get(streamId)!;
+    }
+
+    /**
+     * Event store for one session's transport. Stream IDs are only unique per
+     * transport (e.g. the standalone GET stream), so they are scoped by session.
+     */
+    forSession(sessionId: string): EventStore {
+        return {
+            storeEvent: async (streamId, message) => this.storeEvent(sessionId, streamId, message),
+            replayEventsAfter: async (lastEventId, { send }) => {
+                const last = this.event(lastEventId);
+                // Never replay another session's events
+                if (!last || last.sessionId !== sessionId) return "";
+
+                const ids = this.stream(sessionId, last.streamId);
+                for (const id of ids.slice(ids.indexOf(lastEventId) + 1)) {
+                    const event = this.event(id);
+                    if (event) await send(event.id, event.message);
+                }
+                return last.streamId;
+            },
+        };
+    }
+
+    private event(id: EventId): StoredEvent | undefined {
+        return this.pending.get(id) ?? this.events.get(id);
+    }
+
+    private deleteEvent(id: EventId): void {
+        if (!this.pending.delete(id)) this.events.delete(id);
+    }
+
+    private storeEvent(sessionId: string, streamId: StreamId, message: JSONRPCMessage): EventId {
+        const seq = this.nextSeq++;
+        const id = `${sessionId}_${seq}`;
+        this.pending.set(id, { id, sessionId, streamId, seq, createdAt: Date.now(), message });
+
+        const ids = this.stream(sessionId, streamId);
+        ids.push(id);
+        if (this.limits.maxEventsPerStream > 0) {
+            for (const dropped of ids.splice(0, Math.max(0, ids.length - this.limits.maxEventsPerStream))) {
+                this.deleteEvent(dropped);
+            }
+        }
+
+        if (!this.flushTimer) {
+            this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+            this.flushTimer.unref();
+        }
+        return id;
+    }
+
+    /**
+     * Write pending events to storage (events dropped before that are never written),
+     * then drop expired events if that has not happened for a while
+     */
+    flush(): void {
+        clearTimeout(this.flushTimer);
+        this.flushTimer = undefined;
+        for (const event of this.pending.values()) {
+            this.events.set(event.id, event);
+        }
+        this.pending.clear();
+
+        if (Date.now() - this.lastPrune > PRUNE_INTERVAL_MS) {
+            this.pruneExpired();
+        }
+    }
+
+    /**
+     * Whether a session has buffered events (and can therefore be resumed)
+     */
+    hasSession(sessionId: string): boolean {
+        return this.streams.has(sessionId);
+    }
+
+    /**
+     * Drop all events of a session (when it is closed for good)
+     */
+    deleteSession(sessionId: string): void {
+        const sessionStreams = this.streams.get(sessionId);
+        if (!sessionStreams) return;
+        for (const ids of sessionStreams.values()) {
+            ids.forEach((id) => this.deleteEvent(id));
+        }
+        this.streams.delete(sessionId);
+    }
+
+    /**
+     * Drop the events of sessions that sent nothing since `cutoff`, e.g. sessions suspended by a
+     * shutdown that no client re-initialized. Returns the number of dropped sessions.
+     */
+    sweepInactiveSessions(cutoff: number): number {
+        let dropped = 0;
+        for (const [sessionId, sessionStreams] of Array.from(this.streams)) {
+            const lastEvent = Math.max(...Array.from(sessionStreams.values(), (ids) =>
+                this.event(ids[ids.length - 1])?.createdAt ?? 0
+            ));
+            if (lastEvent < cutoff) {
+                this.deleteSession(sessionId);
+                dropped++;
+            }
+        }
+        return dropped;
+    }
+
+    /**
+     * Drop events older than the age cap. Returns the number of dropped events.
+     */
+    pruneExpired(now: number = Date.now()): number {
+        this.lastPrune = now;
+        if (this.limits.maxAgeMinutes <= 0) return 0;
+        const cutoff = now - this.limits.maxAgeMinutes * 60_000;
+
+        let dropped = 0;
+        for (const [sessionId, sessionStreams] of this.streams) {
+            for (const [streamId, ids] of sessionStreams) {
+                // Events are appended in order, so expired ones are at the front
+                let expired = 0;
+                while (expired < ids.length && (this.event(ids[expired])?.createdAt ?? 0) < cutoff) {
+                    this.deleteEvent(ids[expired]);
+                    expired++;
+                }
+                ids.splice(0, expired);
+                dropped += expired;
+                if (ids.length === 0) sessionStreams.delete(streamId);
+            }
+            if (sessionStreams.size === 0) this.streams.delete(sessionId);
+        }
+
+        if (dropped > 0) {
+            Logger.debug(`Pruned ${dropped} expired SSE events`);
+        }
+        return dropped;
+    }
+
+    get size(): number {
+        return this.events.size + this.pending.size;
+    }
+}
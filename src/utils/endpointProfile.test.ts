@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { probeEndpoint } from './endpointProfile.js';
+
+type Handler = (query: string | null, url: URL) => { status?: number; headers?: Record<string, string>; body: unknown };
+
+describe('probeEndpoint', () => {
+    const servers: http.Server[] = [];
+
+    const serve = async (handler: Handler): Promise<string> => {
+        const server = http.createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                const url = new URL(req.url!, 'http://localhost');
+                const query = req.method === 'POST' ? new URLSearchParams(body).get('query') : url.searchParams.get('query');
+                const answer = handler(query, url);
+                res.writeHead(answer.status ?? 200, { 'Content-Type': 'application/json', ...answer.headers });
+                res.end(typeof answer.body === 'string' ? answer.body : JSON.stringify(answer.body));
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        servers.push(server);
+        return `http://127.0.0.1:${(server.address() as AddressInfo).port}/sparql`;
+    };
+
+    const value = (text: string) => ({ head: { vars: ['value'] }, results: { bindings: [{ value: { type: 'literal', value: text } }] } });
+
+    afterEach(async () => {
+        await Promise.all(servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))));
+    });
+
+    it('should recognize the engine from the Server header and test capabilities', async () => {
+        const endpoint = await serve((query) => {
+            const headers = { Server: 'Virtuoso/07.20.3239 (Linux) x86_64-generic-linux-glibc25  VDB' };
+            if (query?.includes('GRAPH ?g')) return { headers, body: { boolean: true } };
+            if (query?.includes('GROUP_CONCAT')) return { headers, body: value('b,a') };
+            // No property paths
+            if (query?.includes('*')) return { status: 400, headers, body: 'Virtuoso 37000 Error SP030' };
+            return { headers, body: '<html>SPARQL Query Editor</html>' };
+        });
+
+        expect(await probeEndpoint(endpoint)).toEqual({
+            engine: 'virtuoso',
+            detectedBy: 'headers',
+            capabilities: { textSearch: false, namedGraphs: true, groupConcat: true, propertyPaths: false },
+            searchBackend: 'fallback',
+        });
+    });
+
+    it('should fall back to test queries and pick the engine\'s search backend', async () => {
+        const endpoint = await serve((query, url) => {
+            if (url.searchParams.get('cmd') === 'stats') return { body: { 'name-index': 'dblp', 'num-triples-normal': 1000 } };
+            if (!query) return { status: 400, body: { exception: 'No query' } };
+            if (query.includes('textSearch:')) return { body: { head: { vars: ['text'] }, results: { bindings: [] } } };
+            if (query.includes('GRAPH ?g')) return { body: { boolean: false } };
+            if (query.includes('GROUP_CONCAT')) return { body: value('a,b') };
+            if (query.includes('ASK')) return { body: { boolean: true } };
+            return { status: 400, body: { exception: 'Unknown function' } };
+        });
+
+        const profile = await probeEndpoint(endpoint);
+        expect(profile).toMatchObject({ engine: 'qlever', detectedBy: 'test query', searchBackend: 'qlever' });
+        expect(profile.capabilities).toEqual({ textSearch: true, namedGraphs: false, groupConcat: true, propertyPaths: true });
+
+        // A configured backend wins, sources Comunica evaluates are not probed
+        expect((await probeEndpoint(endpoint, { engine: 'fallback' })).searchBackend).toBe('fallback');
+        expect(await probeEndpoint('file:///data/people.ttl', { sourceType: 'file' })).toMatchObject({ engine: 'comunica', detectedBy: 'source type' });
+        expect((await probeEndpoint('http://127.0.0.1:1/sparql')).error).toBeDefined();
+    });
+});
@@ -0,0 +1,232 @@
+import type { EndpointCapabilities, EndpointProfile, EngineName, SourceType } from "../types/index.js";
+import Logger from "./logger.js";
+
+/**
+ * Detect the SPARQL engine behind an endpoint and what it supports, so the search backend
+ * does not have to be configured by hand
+ */
+
+/** Give up on a single probe request after this long */
+const PROBE_TIMEOUT_MS = 5000;
+
+/** Formats of a SPARQL service description, the HTML query form is fine too */
+const SERVICE_DESCRIPTION_ACCEPT = "text/turtle, application/rdf+xml;q=0.9, application/ld+json;q=0.8, */*;q=0.1";
+
+/** Engine markers in the Server header, service descriptions and query forms (checked in order) */
+const ENGINE_MARKERS: Array<[EngineName, RegExp]> = [
+    ["qlever", /qlever/i],
+    ["virtuoso", /virtuoso|openlinksw/i],
+    ["blazegraph", /blazegraph|bigdata\.com/i],
+    ["graphdb", /graphdb|ontotext/i],
+    ["fuseki", /fuseki|jena\.apache\.org/i],
+    ["oxigraph", /oxigraph/i],
+];
+
+/** Queries only one engine answers with the expected value (vendor functions the others reject or leave unbound) */
+const ENGINE_QUERIES: Array<[EngineName, string, string]> = [
+    ["virtuoso", 'SELECT (bif:length("probe") AS ?value) WHERE {}', "5"],
+    ["fuseki", 'SELECT (<http://jena.apache.org/ARQ/function#strjoin>("-", "a", "b") AS ?value) WHERE {}', "a-b"],
+];
+
+/** Engine-specific full-text search, tested with a query that uses it (GraphDB needs the connector name) */
+const TEXT_SEARCH_QUERIES: Partial<Record<EngineName, (index?: string) => string | undefined>> = {
+    qlever: () => 'PREFIX textSearch: <https://qlever.cs.uni-freiburg.de/textSearch/> SELECT ?text WHERE { SERVICE textSearch: { ?text textSearch:contains [ textSearch:word "a*" ] } } LIMIT 1',
+    virtuoso: () => 'SELECT ?text WHERE { ?text <bif:contains> "\'probe\'" } LIMIT 1',
+    blazegraph: () => 'SELECT ?text WHERE { ?text <http://www.bigdata.com/rdf/search#search> "probe" } LIMIT 1',
+    graphdb: (index) => index && `SELECT ?entity WHERE { ?search a <http://www.ontotext.com/connectors/lucene/instance#${index}> ; <http://www.ontotext.com/connectors/lucene#query> "probe" ; <http://www.ontotext.com/connectors/lucene#entities> ?entity } LIMIT 1`,
+    fuseki: () => 'SELECT ?entity WHERE { ?entity <http://jena.apache.org/text#query> "probe" } LIMIT 1',
+};
+
+/** Search backend using an engine's text index */
+const SEARCH_BACKENDS: Partial<Record<EngineName, string>> = {
+    qlever: "qlever",
+    virtuoso: "virtuoso",
+    blazegraph: "blazegraph",
+    graphdb: "graphdb",
+    fuseki: "jena",
+};
+
+const NAMED_GRAPHS_QUERY = "ASK { GRAPH ?g { ?s ?p ?o } }";
+const GROUP_CONCAT_QUERY = 'SELECT (GROUP_CONCAT(?x; separator=",") AS ?value) WHERE { VALUES ?x { "a" "b" } }';
+const PROPERTY_PATH_QUERY = "ASK { VALUES ?s { <urn:kg-mcp:probe> } ?s (<urn:kg-mcp:probe>/<urn:kg-mcp:probe>)* ?s }";
+
+const NO_CAPABILITIES: EndpointCapabilities = { textSearch: false, namedGraphs: false, groupConcat: false, propertyPaths: false };
+
+export interface ProbeOptions {
+    /** Bearer token for the endpoint */
+    token?: string;
+    /** Only 'sparql' endpoints are probed, Comunica evaluates the other sources itself */
+    sourceType?: SourceType;
+    /** Configured search backend, 'auto' (default) picks the one of the detected engine */
+    engine?: string;
+    /** GraphDB Lucene connector to test */
+    searchIndex?: string;
+}
+
+/**
+ * The engine named in response headers or a response body
+ */
+export function detectEngine(text: string): EngineName | undefined {
+    return ENGINE_MARKERS.find(([, marker]) => marker.test(text))?.[0];
+}
+
+/**
+ * The search backend for an engine: its own full-text index if it has one, else FILTER over the literals
+ */
+export function searchBackendFor(engine: EngineName, capabilities: EndpointCapabilities): string {
+    return (capabilities.textSearch && SEARCH_BACKENDS[engine]) || "fallback";
+}
+
+/**
+ * One line for the server instructions, e.g. "virtuoso: named graphs, GROUP_CONCAT, property paths"
+ */
+export function describeProfile(profile: EndpointProfile): string {
+    const { textSearch, namedGraphs, groupConcat, propertyPaths } = profile.capabilities;
+    const features = [
+        textSearch && "text index",
+        namedGraphs && "named graphs",
+        groupConcat && "GROUP_CONCAT",
+        propertyPaths && "property paths",
+    ].filter(Boolean);
+    const engine = profile.engine === "unknown" ? "unknown engine" : profile.engine;
+    return features.length > 0 ? `${engine}: ${features.join(", ")}` : engine;
+}
+
+async function send(url: string, init: RequestInit, token?: string): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (token) headers.set("Authorization", `Bearer ${token}`);
+    return fetch(url, { ...init, headers, signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+}
+
+/**
+ * Run a test query, the SPARQL JSON result or undefined if the endpoint rejected it
+ */
+async function testQuery(endpoint: string, query: string, token?: string): Promise<any | undefined> {
+    try {
+        const response = await send(endpoint, {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/sparql-results+json" },
+            body: new URLSearchParams({ query }).toString(),
+        }, token);
+        return response.ok ? await response.json() : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+function firstValue(result: any): string | undefined {
+    return result?.results?.bindings?.[0]?.value?.value;
+}
+
+/**
+ * QLever answers `?cmd=stats` with the names of its index
+ */
+async function isQLever(endpoint: string, token?: string): Promise<boolean> {
+    try {
+        const url = new URL(endpoint);
+        url.searchParams.set("cmd", "stats");
+        const response = await send(url.toString(), { headers: { Accept: "application/json" } }, token);
+        if (!response.ok) return false;
+        const stats = await response.json();
+        return typeof stats === "object" && stats !== null && "name-index" in stats;
+    } catch {
+        return false;
+    }
+}
+
+async function detectByTestQueries(endpoint: string, token?: string): Promise<EngineName | undefined> {
+    if (await isQLever(endpoint, token)) return "qlever";
+    for (const [engine, query, expected] of ENGINE_QUERIES) {
+        if (firstValue(await testQuery(endpoint, query, token)) === expected) return engine;
+    }
+    return undefined;
+}
+
+async function testCapabilities(endpoint: string, engine: EngineName, token?: string, searchIndex?: string): Promise<EndpointCapabilities> {
+    const textSearchQuery = TEXT_SEARCH_QUERIES[engine]?.(searchIndex);
+    const [namedGraphs, groupConcat, propertyPaths, textSearch] = await Promise.all([
+        testQuery(endpoint, NAMED_GRAPHS_QUERY, token),
+        testQuery(endpoint, GROUP_CONCAT_QUERY, token),
+        testQuery(endpoint, PROPERTY_PATH_QUERY, token),
+        textSearchQuery ? testQuery(endpoint, textSearchQuery, token) : undefined,
+    ]);
+    return {
+        textSearch: textSearch !== undefined,
+        namedGraphs: namedGraphs?.boolean === true,
+        groupConcat: ["a,b", "b,a"].includes(firstValue(groupConcat) ?? ""),
+        propertyPaths: propertyPaths?.boolean === true,
+    };
+}
+
+/**
+ * Probe an endpoint: the engine from its Server header or service description, else from test queries,
+ * then the capabilities. Never throws, an unreachable endpoint yields a profile with `error`.
+ */
+export async function probeEndpoint(endpoint: string, options: ProbeOptions = {}): Promise<EndpointProfile> {
+    const { token, sourceType = "sparql", engine: configured = "auto", searchIndex } = options;
+    const pinned = (searchBackend: string) => (configured === "auto" ? searchBackend : configured);
+
+    if (sourceType !== "sparql") {
+        // Comunica evaluates the whole query itself, TPF interfaces only serve the default graph
+        const capabilities = { textSearch: false, namedGraphs: sourceType !== "tpf", groupConcat: true, propertyPaths: true };
+        return { engine: "comunica", detectedBy: "source type", capabilities, searchBackend: pinned("fallback") };
+    }
+
+    let engine: EngineName | undefined;
+    let detectedBy = "none";
+    try {
+        const response = await send(endpoint, { headers: { Accept: SERVICE_DESCRIPTION_ACCEPT } }, token);
+        const headers = [response.headers.get("server"), response.headers.get("x-powered-by"), [...response.headers.keys()].join(" ")].join(" ");
+        engine = detectEngine(headers);
+        if (engine) {
+            detectedBy = "headers";
+        } else {
+            engine = detectEngine((await response.text()).slice(0, 65536));
+            if (engine) detectedBy = "service description";
+        }
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { engine: "unknown", detectedBy, capabilities: NO_CAPABILITIES, searchBackend: pinned("fallback"), error: message };
+    }
+
+    if (!engine) {
+        engine = await detectByTestQueries(endpoint, token);
+        if (engine) detectedBy = "test query";
+    }
+
+    const capabilities = await testCapabilities(endpoint, engine ?? "unknown", token, searchIndex);
+    return { engine: engine ?? "unknown", detectedBy, capabilities, searchBackend: pinned(searchBackendFor(engine ?? "unknown", capabilities)) };
+}
+
+/**
+ * The profile of one dataset's endpoint, probed once on first use (again if the endpoint was unreachable)
+ */
+export class EndpointProfiler {
+    private pending?: Promise<EndpointProfile>;
+    private latest?: EndpointProfile;
+
+    constructor(private endpoint: string, private options: ProbeOptions = {}) {}
+
+    get(): Promise<EndpointProfile> {
+        if (!this.pending) {
+            this.pending = probeEndpoint(this.endpoint, this.options).then((profile) => {
+                this.latest = profile;
+                if (profile.error) {
+                    this.pending = undefined;
+                    Logger.warn(`Could not probe ${this.endpoint}: ${profile.error}`);
+                } else {
+                    Logger.info(`Endpoint ${this.endpoint}: ${describeProfile(profile)} (${profile.detectedBy}), search backend '${profile.searchBackend}'`);
+                }
+                return profile;
+            });
+        }
+        return this.pending;
+    }
+
+    /**
+     * The last probe result, without waiting for a probe
+     */
+    current(): EndpointProfile | undefined {
+        return this.latest;
+    }
+}
@@ -7,9 +7,7 @@ import type { Quad } from "@rdfjs/types";
 /**
  * Format an InspectionResult for the agent (compact, uses prefixes)
  */
-export function formatInspectionForAgent(result: InspectionResult): string {
-    const prefixManager = PrefixManager.getInstance();
-
+export function formatInspectionForAgent(result: InspectionResult, prefixManager: PrefixManager = PrefixManager.getInstance()): string {
     switch (result.type) {
         case "class":
             return formatClassInspectionForAgent(result.data, prefixManager);
@@ -136,7 +134,7 @@ function formatEntityInspectionForAgent(data: EntityInspection, prefixManager: P
 /**
  * Format search results for the agent
  */
-export function formatResourceResultForAgent(results: ResourceResult[]): string {
+export function formatResourceResultForAgent(results: ResourceResult[], prefixManager: PrefixManager = PrefixManager.getInstance()): string {
     if (results.length === 0) {
         return "No entities found matching your search query. Try different keywords or check if the entities exist in the knowledge graph.";
     }
@@ -156,7 +154,6 @@ export function formatResourceResultForAgent(results: ResourceResult[]): string
     const table = generateMarkdownTable(["URI", "Property", "Matching Text"], rows);
 
     let response = `## Found ${results.length} entities\n\n${table}\n\n*Use \`inspect\` tool with any URI above for detailed information*`;
-    const prefixManager = PrefixManager.getInstance();
     response = prefixManager.compressTextWithPrefixes(response);
     return response;
 }
@@ -164,14 +161,14 @@ export function formatResourceResultForAgent(results: ResourceResult[]): string
 /**
  * Format triples for the agent
  */
-export function formatTriplesForAgent(quads: Quad[]): string {
+export function formatTriplesForAgent(quads: Quad[], prefixManager?: PrefixManager): string {
     // Agent view uses compressed prefixes (true)
-    return formatQuadsToMarkdown(quads, true);
+    return formatQuadsToMarkdown(quads, true, prefixManager);
 }
 
 /**
  * Format query builder results for the agent
  */
-export function formatQueryBuilderResultForAgent(result: QueryBuilderResult): string {
-    return formatQuadsToMarkdown(result.quads, true);
+export function formatQueryBuilderResultForAgent(result: QueryBuilderResult, prefixManager?: PrefixManager): string {
+    return formatQuadsToMarkdown(result.quads, true, prefixManager);
 }
@@ -4,6 +4,7 @@ import { escapeHTML } from "./shared.js";
 import { formatQuadsToMarkdown, formatQuadsToTtl } from "./quads.js";
 import { formatQuadsToUserHtml } from "./user.js";
 import type { Explanation, ExplanationStep } from "../../types/index.js";
+import type { Branding } from "../../config.js";
 
 /**
  * Converts quads to Cytoscape-compatible graph data with proper type classification
@@ -94,8 +95,9 @@ function quadsToGraphData(quads: Quad[]): { nodes: any[], edges: any[] } {
 /**
  * Generates the full Citation HTML Page with Graph Visualization
  */
-export async function generateCitationHtml(quads: Quad[], citationId: string, options?: { title?: string, description?: string }): Promise<string> {
-    const title = options?.title || "Knowledge Graph Citation";
+export async function generateCitationHtml(quads: Quad[], citationId: string, options?: { title?: string, description?: string, dataset?: string, quadDatasets?: string[][], branding?: Branding }): Promise<string> {
+    const citationTitle = escapeHTML(options?.branding?.citationTitle || "Knowledge Graph Citation");
+    const title = options?.title || citationTitle;
 
     // Generate TTL for the raw view
     const ttl = await formatQuadsToTtl(quads);
@@ -105,7 +107,7 @@ export async function generateCitationHtml(quads: Quad[], citationId: string, op
     const graphDataJson = JSON.stringify(graphData);
 
     // Generate Table View (User-friendly HTML Grid)
-    const tableHtml = formatQuadsToUserHtml(quads);
+    const tableHtml = formatQuadsToUserHtml(quads, options?.quadDatasets);
 
     let descriptionHtml = '';
     if (options?.description) {
@@ -715,6 +717,11 @@ export async function generateCitationHtml(quads: Quad[], citationId: string, op
             color: #fff;
         }
 
+        .value-source {
+            color: var(--muted);
+            font-size: 0.8em;
+        }
+
         .value-more {
             background: transparent;
             color: var(--muted);
@@ -825,7 +832,7 @@ export async function generateCitationHtml(quads: Quad[], citationId: string, op
     <div class="page">
         <header class="hero">
             <div class="hero-main">
-                <div class="eyebrow">Knowledge Graph Citation</div>
+                <div class="eyebrow">${citationTitle}</div>
                 <h1>${title}</h1>
                 <p class="hero-subtitle">A living map of entities, types, and relations rendered into a readable story.</p>
             </div>
@@ -836,6 +843,7 @@ export async function generateCitationHtml(quads: Quad[], citationId: string, op
                 </button>
                 <div class="meta-chips">
                     <div class="chip">Citation <code>${citationId}</code></div>
+                    ${options?.dataset ? `<div class="chip">Dataset <code>${escapeHTML(options.dataset)}</code></div>` : ''}
                     <div class="chip">${quads.length} triples</div>
                     <div class="chip">${graphData.nodes.length} nodes</div>
                 </div>
@@ -1246,8 +1254,12 @@ export async function generateCitationHtml(quads: Quad[], citationId: string, op
  */
 export async function generateExplanationHtml(
     explanation: Explanation,
-    baseUrl: string
+    baseUrl: string,
+    accessToken?: string,
+    branding?: Branding
 ): Promise<string> {
+    const tokenQuery = accessToken ? `?token=${encodeURIComponent(accessToken)}` : "";
+
     const stepsHtml = (await Promise.all(explanation.steps
         .map(async (step, index) => await generateStepHtml(step, index, explanation.id, baseUrl))))
         .join("\n");
@@ -2160,7 +2172,7 @@ export async function generateExplanationHtml(
 
         <script src=\"https://cdn.jsdelivr.net/npm/marked/marked.min.js\"></script>
         <footer>
-            Generated by MCP Knowledge Graph Server •
+            Generated by ${escapeHTML(branding?.name || "MCP Knowledge Graph Server")} •
             <a href=\"${baseUrl}\">Back to server</a>
         </footer>
     </div>
@@ -2289,7 +2301,7 @@ export async function generateExplanationHtml(
             preContent.style.display = 'none';
 
             try {
-                const response = await fetch(\`${baseUrl}/explain/\${explanationId}/execute/\${stepIndex}\`, {
+                const response = await fetch(\`${baseUrl}/explain/\${explanationId}/execute/\${stepIndex}${tokenQuery}\`, {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' }
                 });
@@ -4,3 +4,5 @@ export * from "./user.js";
 export * from "./quads.js";
 export * from "./html.js";
 export * from "./termUtils.js";
+export * from "./json.js";
+export * from "./results.js";
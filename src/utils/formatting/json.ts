@@ -0,0 +1,62 @@
+import { Quad, Term } from "@rdfjs/types";
+import type { InspectionResult, QueryBuilderResult } from "../../types/index.js";
+
+/**
+ * Structured (JSON) output for the REST API - the counterpart of the agent/user formatters
+ */
+
+export interface JsonTerm {
+    termType: string;
+    value: string;
+    language?: string;
+    datatype?: string;
+}
+
+export interface JsonTriple {
+    subject: JsonTerm;
+    predicate: JsonTerm;
+    object: JsonTerm;
+    /** Named graph of the triple in its dataset */
+    graph?: string;
+    /** Datasets the triple was found in (federated calls only) */
+    datasets?: string[];
+}
+
+export function formatTermForApi(term: Term): JsonTerm {
+    const json: JsonTerm = { termType: term.termType, value: term.value };
+    if (term.termType === "Literal") {
+        if (term.language) json.language = term.language;
+        json.datatype = term.datatype.value;
+    }
+    return json;
+}
+
+/**
+ * `sources` names the datasets of each quad of a federated call
+ */
+export function formatQuadsForApi(quads: Quad[], sources?: Map<Quad, string[]>): JsonTriple[] {
+    return quads.map((quad) => ({
+        subject: formatTermForApi(quad.subject),
+        predicate: formatTermForApi(quad.predicate),
+        object: formatTermForApi(quad.object),
+        ...(quad.graph.termType === "NamedNode" ? { graph: quad.graph.value } : {}),
+        ...(sources?.has(quad) ? { datasets: sources.get(quad) } : {}),
+    }));
+}
+
+/**
+ * Convert the Maps of an inspection result to plain objects
+ */
+export function formatInspectionForApi(result: InspectionResult): Record<string, unknown> {
+    if (result.type === "notFound") {
+        return { type: "notFound", uri: result.uri };
+    }
+    const data = Object.fromEntries(
+        Object.entries(result.data).map(([key, value]) => [key, value instanceof Map ? Object.fromEntries(value) : value])
+    );
+    return { type: result.type, ...data };
+}
+
+export function formatQueryBuilderResultForApi(result: QueryBuilderResult, sources?: Map<Quad, string[]>): { count: number; triples: JsonTriple[] } {
+    return { count: result.count, triples: formatQuadsForApi(result.quads, sources) };
+}
@@ -7,11 +7,9 @@ import { generateMarkdownTable } from "./shared.js";
 /**
  * Generates a Markdown table from Quads
  */
-export function formatQuadsToMarkdown(quads: Quad[], compressed: boolean): string {
+export function formatQuadsToMarkdown(quads: Quad[], compressed: boolean, prefixManager: PrefixManager = PrefixManager.getInstance()): string {
     if (quads.length === 0) return "No triples found.";
 
-    const prefixManager = PrefixManager.getInstance();
-
     // 1. Organize data
     const entityData = new Map<string, Map<string, Set<string>>>();
     const entityTypes = new Map<string, Set<string>>();
@@ -109,8 +107,7 @@ export function formatQuadsToMarkdown(quads: Quad[], compressed: boolean): strin
 /**
  * Generates regular TTL from Quads
  */
-export async function formatQuadsToTtl(quads: Quad[]): Promise<string> {
-    const prefixManager = PrefixManager.getInstance();
+export async function formatQuadsToTtl(quads: Quad[], prefixManager: PrefixManager = PrefixManager.getInstance()): Promise<string> {
     const writer = new Writer({ prefixes: prefixManager.getPrefixMap() });
     writer.addQuads(quads);
 
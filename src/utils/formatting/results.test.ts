@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { formatResults, resultVariables, type ResultRow } from './results.js';
+
+const rows: ResultRow[] = [
+    {
+        s: { value: 'http://example.org/a', type: 'NamedNode' },
+        label: { value: 'Say "hi",\tthen go', type: 'Literal', language: 'en' },
+    },
+    {
+        s: { value: 'b0', type: 'BlankNode' },
+        count: { value: '42', type: 'Literal', datatype: 'http://www.w3.org/2001/XMLSchema#integer' },
+    },
+];
+
+describe('formatResults', () => {
+    it('should keep term types, datatypes and language tags in JSON', () => {
+        expect(resultVariables(rows)).toEqual(['s', 'label', 'count']);
+        expect(JSON.parse(formatResults('json', resultVariables(rows), rows))).toEqual({
+            head: { vars: ['s', 'label', 'count'] },
+            results: {
+                bindings: [
+                    { s: { type: 'uri', value: 'http://example.org/a' }, label: { type: 'literal', value: 'Say "hi",\tthen go', 'xml:lang': 'en' } },
+                    { s: { type: 'bnode', value: 'b0' }, count: { type: 'literal', value: '42', datatype: 'http://www.w3.org/2001/XMLSchema#integer' } },
+                ],
+            },
+        });
+    });
+
+    it('should render CSV and TSV', () => {
+        expect(formatResults('csv', ['s', 'label', 'count'], rows))
+            .toBe('s,label,count\r\nhttp://example.org/a,"Say ""hi"",\tthen go",\r\n_:b0,,42');
+        expect(formatResults('tsv', ['s', 'label', 'count'], rows))
+            .toBe('?s\t?label\t?count\n<http://example.org/a>\t"Say \\"hi\\",\\tthen go"@en\t\n_:b0\t\t"42"^^<http://www.w3.org/2001/XMLSchema#integer>');
+    });
+});
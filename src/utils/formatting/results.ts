@@ -0,0 +1,135 @@
+import type { Quad, Term } from "@rdfjs/types";
+
+/**
+ * SELECT results in the standard SPARQL 1.1 result formats (JSON, CSV and TSV)
+ */
+
+export type ResultFormat = "markdown" | "csv" | "tsv" | "json";
+
+/** A bound term of a result row, as returned by QueryService.executeQueryRaw */
+export interface ResultTerm {
+    value: string;
+    /** RDF/JS term type (NamedNode, Literal, BlankNode, ...) */
+    type: string;
+    language?: string;
+    /** Datatype IRI of a literal without language tag */
+    datatype?: string;
+}
+
+export type ResultRow = Record<string, ResultTerm>;
+
+const XSD_STRING = "http://www.w3.org/2001/XMLSchema#string";
+
+const JSON_TERM_TYPES: Record<string, string> = { NamedNode: "uri", Literal: "literal", BlankNode: "bnode", Quad: "triple" };
+
+/**
+ * Variables of all rows in order of appearance (rows omit unbound variables)
+ */
+export function resultVariables(rows: ResultRow[]): string[] {
+    const variables = new Set<string>();
+    for (const row of rows) {
+        Object.keys(row).forEach((variable) => variables.add(variable));
+    }
+    return [...variables];
+}
+
+export function toResultTerm(term: Term): ResultTerm {
+    return {
+        value: term.value,
+        type: term.termType,
+        language: (term.termType === "Literal" && term.language) || undefined,
+        datatype: term.termType === "Literal" && !term.language ? term.datatype.value : undefined,
+    };
+}
+
+/**
+ * Triples as rows of ?subject ?predicate ?object, to render CONSTRUCT/DESCRIBE results like SELECT results.
+ * Quads in a named graph add ?graph.
+ */
+export function quadsToResultRows(quads: Quad[]): ResultRow[] {
+    return quads.map((quad) => ({
+        subject: toResultTerm(quad.subject),
+        predicate: toResultTerm(quad.predicate),
+        object: toResultTerm(quad.object),
+        ...(quad.graph.termType === "NamedNode" ? { graph: toResultTerm(quad.graph) } : {}),
+    }));
+}
+
+/**
+ * SPARQL 1.1 Query Results JSON, keeping term types, datatypes and language tags
+ */
+export function formatResultsAsJson(variables: string[], rows: ResultRow[]): string {
+    const bindings = rows.map((row) => Object.fromEntries(
+        Object.entries(row).map(([variable, term]) => {
+            const binding: Record<string, string> = { type: JSON_TERM_TYPES[term.type] ?? term.type, value: term.value };
+            if (term.language) binding["xml:lang"] = term.language;
+            if (term.datatype && term.datatype !== XSD_STRING) binding.datatype = term.datatype;
+            return [variable, binding];
+        })
+    ));
+    return JSON.stringify({ head: { vars: variables }, results: { bindings } }, null, 2);
+}
+
+export function formatBooleanAsJson(value: boolean): string {
+    return JSON.stringify({ head: {}, boolean: value }, null, 2);
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * SPARQL 1.1 Query Results CSV: plain values only, blank nodes as _:label
+ */
+export function formatResultsAsCsv(variables: string[], rows: ResultRow[]): string {
+    const lines = rows.map((row) => variables.map((variable) => {
+        const term = row[variable];
+        if (!term) return "";
+        return csvField(term.type === "BlankNode" ? `_:${term.value}` : term.value);
+    }).join(","));
+    return [variables.map(csvField).join(","), ...lines].join("\r\n");
+}
+
+function tsvTerm(term: ResultTerm): string {
+    switch (term.type) {
+        case "NamedNode":
+            return `<${term.value}>`;
+        case "BlankNode":
+            return `_:${term.value}`;
+        case "Literal": {
+            const escaped = term.value
+                .replace(/\\/g, "\\\\")
+                .replace(/"/g, '\\"')
+                .replace(/\t/g, "\\t")
+                .replace(/\n/g, "\\n")
+                .replace(/\r/g, "\\r");
+            if (term.language) return `"${escaped}"@${term.language}`;
+            if (term.datatype && term.datatype !== XSD_STRING) return `"${escaped}"^^<${term.datatype}>`;
+            return `"${escaped}"`;
+        }
+        default:
+            return term.value;
+    }
+}
+
+/**
+ * SPARQL 1.1 Query Results TSV: terms in Turtle syntax, so types, datatypes and language tags are kept
+ */
+export function formatResultsAsTsv(variables: string[], rows: ResultRow[]): string {
+    const lines = rows.map((row) => variables.map((variable) => (row[variable] ? tsvTerm(row[variable]) : "")).join("\t"));
+    return [variables.map((variable) => `?${variable}`).join("\t"), ...lines].join("\n");
+}
+
+/**
+ * Render rows in one of the standard result formats
+ */
+export function formatResults(format: Exclude<ResultFormat, "markdown">, variables: string[], rows: ResultRow[]): string {
+    switch (format) {
+        case "json":
+            return formatResultsAsJson(variables, rows);
+        case "csv":
+            return formatResultsAsCsv(variables, rows);
+        case "tsv":
+            return formatResultsAsTsv(variables, rows);
+    }
+}
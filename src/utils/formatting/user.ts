@@ -307,20 +307,29 @@ export function formatResourceResultForUser(results: ResourceResult[]): string {
 
 /**
  * Format quads for the user using the consistent Property Grid style
- * Replaces formatQuadsToMarkdown for user-facing views
+ * Replaces formatQuadsToMarkdown for user-facing views.
+ * `quadDatasets` names the datasets of each quad (federated citations), shown next to its value.
  */
-export function formatQuadsToUserHtml(quads: Quad[]): string {
+export function formatQuadsToUserHtml(quads: Quad[], quadDatasets?: string[][]): string {
     if (quads.length === 0) return `<div class="empty-state">No triples found.</div>`;
 
     // 1. Organize data
     const entityData = new Map<string, Map<string, Set<string>>>();
     const entityTypes = new Map<string, Set<string>>();
+    const valueDatasets = new Map<string, Set<string>>();
+    const valueKey = (s: string, p: string, o: string) => JSON.stringify([s, p, o]);
 
-    quads.forEach(quad => {
+    quads.forEach((quad, index) => {
         const s = quad.subject.value;
         const p = quad.predicate.value;
         const o = quad.object.value;
 
+        if (quadDatasets?.[index]) {
+            const key = valueKey(s, p, o);
+            if (!valueDatasets.has(key)) valueDatasets.set(key, new Set());
+            quadDatasets[index].forEach(dataset => valueDatasets.get(key)!.add(dataset));
+        }
+
         if (!entityData.has(s)) entityData.set(s, new Map());
         const props = entityData.get(s)!;
         if (!props.has(p)) props.set(p, new Set());
@@ -385,8 +394,10 @@ export function formatQuadsToUserHtml(quads: Quad[]): string {
                 for (let i = 0; i < Math.min(valsArr.length, MAX_VALS); i++) {
                     const v = valsArr[i];
                     const isUri = v.startsWith('http');
-                    if (isUri) valStrArray.push(`<a href="${v}" target="_blank">${escapeHTML(getReadableName(v))}</a>`);
-                    else valStrArray.push(`<span class="value-literal">${escapeHTML(v)}</span>`);
+                    const datasets = valueDatasets.get(valueKey(s, p, v));
+                    const sourceHtml = datasets ? ` <span class="value-source" title="Dataset">${escapeHTML([...datasets].join(', '))}</span>` : '';
+                    if (isUri) valStrArray.push(`<a href="${v}" target="_blank">${escapeHTML(getReadableName(v))}</a>${sourceHtml}`);
+                    else valStrArray.push(`<span class="value-literal">${escapeHTML(v)}</span>${sourceHtml}`);
                 }
 
                 if (valsArr.length > MAX_VALS) {
@@ -7,6 +7,8 @@ interface LoggerConfig {
   logFile?: string;
   logLevel?: string;
   enableConsole?: boolean;
+  /** Write console output to stderr (stdout is reserved for the stdio transport) */
+  useStderr?: boolean;
 }
 
 class Logger {
@@ -19,7 +21,7 @@ class Logger {
   }
 
   private static createLogger(): winston.Logger {
-    const { logFile, logLevel = 'info', enableConsole = false } = Logger.config;
+    const { logFile, logLevel = 'info', enableConsole = false, useStderr = false } = Logger.config;
 
     const transports: winston.transport[] = [];
 
@@ -69,6 +71,7 @@ class Logger {
       transports.push(
         new winston.transports.Console({
           level: logLevel,
+          stderrLevels: useStderr ? Object.keys(winston.config.npm.levels) : [],
           format: enableConsole
             ? winston.format.combine(
               winston.format.colorize(),
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry } from './metrics.js';
+
+describe('Metrics', () => {
+    it('should render counters per label set', () => {
+        const registry = new MetricsRegistry();
+        const calls = registry.counter('tool_calls_total', 'Tool calls');
+
+        calls.inc({ tool: 'fact', status: 'ok' });
+        calls.inc({ status: 'ok', tool: 'fact' });
+        calls.inc({ tool: 'query_builder', status: 'error' });
+
+        const output = registry.render();
+        expect(output).toContain('# TYPE tool_calls_total counter');
+        expect(output).toContain('tool_calls_total{tool="fact",status="ok"} 2');
+        expect(output).toContain('tool_calls_total{tool="query_builder",status="error"} 1');
+    });
+
+    it('should render cumulative histogram buckets', async () => {
+        const registry = new MetricsRegistry();
+        const duration = registry.histogram('query_seconds', 'Query time', [0.1, 1]);
+
+        duration.observe({ endpoint: 'http://example.org/sparql' }, 0.05);
+        duration.observe({ endpoint: 'http://example.org/sparql' }, 0.5);
+        duration.observe({ endpoint: 'http://example.org/sparql' }, 3);
+        await expect(duration.time({ endpoint: 'other' }, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+
+        const output = registry.render();
+        expect(output).toContain('query_seconds_bucket{endpoint="http://example.org/sparql",le="0.1"} 1');
+        expect(output).toContain('query_seconds_bucket{endpoint="http://example.org/sparql",le="1"} 2');
+        expect(output).toContain('query_seconds_bucket{endpoint="http://example.org/sparql",le="+Inf"} 3');
+        expect(output).toContain('query_seconds_sum{endpoint="http://example.org/sparql"} 3.55');
+        expect(output).toContain('query_seconds_count{endpoint="other"} 1');
+    });
+
+    it('should read gauges at scrape time', () => {
+        const registry = new MetricsRegistry();
+        let sessions = 1;
+        registry.gauge('sessions', 'Sessions', () => sessions);
+        sessions = 4;
+
+        expect(registry.render()).toContain('sessions 4');
+    });
+});
@@ -0,0 +1,142 @@
+/**
+ * Minimal Prometheus-style metrics (counters, histograms, gauges) rendered in
+ * the text exposition format on /metrics.
+ */
+
+type Labels = Record<string, string>;
+
+interface Metric {
+    render(): string[];
+}
+
+const DEFAULT_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: Labels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return "";
+    return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+function labelKey(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+export class Counter implements Metric {
+    private values: Map<string, { labels: Labels; value: number }> = new Map();
+
+    constructor(readonly name: string, readonly help: string) { }
+
+    inc(labels: Labels = {}, value: number = 1): void {
+        const key = labelKey(labels);
+        const entry = this.values.get(key) ?? { labels, value: 0 };
+        entry.value += value;
+        this.values.set(key, entry);
+    }
+
+    render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} counter`,
+            ...Array.from(this.values.values()).map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+        ];
+    }
+}
+
+export class Histogram implements Metric {
+    private values: Map<string, { labels: Labels; counts: number[]; sum: number; count: number }> = new Map();
+
+    constructor(readonly name: string, readonly help: string, private buckets: number[] = DEFAULT_BUCKETS) { }
+
+    observe(labels: Labels, value: number): void {
+        const key = labelKey(labels);
+        const entry = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) entry.counts[index]++;
+        });
+        entry.sum += value;
+        entry.count++;
+        this.values.set(key, entry);
+    }
+
+    /**
+     * Time an async operation in seconds
+     */
+    async time<T>(labels: Labels, fn: () => Promise<T>): Promise<T> {
+        const start = process.hrtime.bigint();
+        try {
+            return await fn();
+        } finally {
+            this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+        }
+    }
+
+    render(): string[] {
+        const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+        for (const { labels, counts, sum, count } of this.values.values()) {
+            this.buckets.forEach((bound, index) => {
+                lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+            });
+            lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+            lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+            lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Gauge whose value is read when metrics are scraped
+ */
+export class Gauge implements Metric {
+    constructor(readonly name: string, readonly help: string, private collect: () => number) { }
+
+    render(): string[] {
+        return [
+            `# HELP ${this.name} ${this.help}`,
+            `# TYPE ${this.name} gauge`,
+            `${this.name} ${this.collect()}`,
+        ];
+    }
+}
+
+export class MetricsRegistry {
+    private metrics: Map<string, Metric> = new Map();
+
+    private register<T extends Metric & { name: string }>(metric: T): T {
+        this.metrics.set(metric.name, metric);
+        return metric;
+    }
+
+    counter(name: string, help: string): Counter {
+        return this.register(new Counter(name, help));
+    }
+
+    histogram(name: string, help: string, buckets?: number[]): Histogram {
+        return this.register(new Histogram(name, help, buckets));
+    }
+
+    /**
+     * Register (or replace) a gauge computed at scrape time
+     */
+    gauge(name: string, help: string, collect: () => number): Gauge {
+        return this.register(new Gauge(name, help, collect));
+    }
+
+    render(): string {
+        return Array.from(this.metrics.values()).flatMap((metric) => metric.render()).join("\n") + "\n";
+    }
+}
+
+// Process-wide registry and the metrics recorded by the server
+export const metrics = new MetricsRegistry();
+
+export const toolCalls = metrics.counter("kg_mcp_tool_calls_total", "MCP tool calls by tool and status");
+export const toolDuration = metrics.histogram("kg_mcp_tool_duration_seconds", "MCP tool execution time by tool");
+export const sparqlQueries = metrics.counter("kg_mcp_sparql_queries_total", "SPARQL queries by dataset, query kind and status");
+export const sparqlDuration = metrics.histogram("kg_mcp_sparql_query_duration_seconds", "SPARQL round-trip time by dataset and query kind");
+export const queryCacheLookups = metrics.counter("kg_mcp_query_cache_lookups_total", "SPARQL result cache lookups by dataset and result (hit or miss)");
+export const sparqlQueueWait = metrics.histogram("kg_mcp_sparql_queue_wait_seconds", "Time SPARQL queries waited for the endpoint's rate limit and concurrency cap");
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { QueryParserService, createSearchBackend, type QASTNode } from './queryParser.js';
+
+const pattern = (backend: string, query: string, index?: string) =>
+    new QueryParserService(createSearchBackend(backend, index)).parseAndGeneratePattern(query, '?searchText');
+
+describe('Search backends', () => {
+    it('should translate boolean queries into one Virtuoso bif:contains expression', () => {
+        expect(pattern('virtuoso', 'turing AND "Alan Mathison" OR enigma machine'))
+            .toBe(`?searchText <bif:contains> "(('turing*' AND 'Alan Mathison') OR ('enigma*' AND 'machine*'))" .`);
+        // Virtuoso needs 4 characters before a wildcard
+        expect(pattern('virtuoso', 'ai')).toBe(`?searchText <bif:contains> "'ai'" .`);
+    });
+
+    it('should expand OR into one Blazegraph search per conjunction', () => {
+        expect(pattern('blazegraph', 'Alan OR Ada AND Turing-Award')).toBe(
+            '{ ?searchText <http://www.bigdata.com/rdf/search#search> "alan*" ; <http://www.bigdata.com/rdf/search#matchAllTerms> "true" . }' +
+            ' UNION ' +
+            '{ ?searchText <http://www.bigdata.com/rdf/search#search> "ada* turing* award*" ; <http://www.bigdata.com/rdf/search#matchAllTerms> "true" . }'
+        );
+        // AND over ORs multiplies the searches
+        const either: QASTNode = { type: 'or', left: { type: 'term', value: 'a' }, right: { type: 'term', value: 'b' } };
+        const tree = Array(5).fill(either).reduce((left: QASTNode, right: QASTNode): QASTNode => ({ type: 'and', left, right }));
+        expect(() => createSearchBackend('blazegraph').generateSearchPattern!(tree, '?searchText'))
+            .toThrow(/expands into 32 Blazegraph text searches, at most 16/);
+    });
+
+    it('should send Lucene queries to GraphDB connectors and Jena text indexes', () => {
+        const literals = '?entity_searchText ?property_searchText ?searchText . FILTER(isLiteral(?searchText))';
+        expect(pattern('graphdb', '"Alan Turing" OR enigma', 'kg_labels')).toBe(
+            '?search_searchText a <http://www.ontotext.com/connectors/lucene/instance#kg_labels> ; ' +
+            '<http://www.ontotext.com/connectors/lucene#query> "(\\"Alan Turing\\" OR enigma*)" ; ' +
+            `<http://www.ontotext.com/connectors/lucene#entities> ?entity_searchText . ${literals}`
+        );
+        expect(pattern('jena', 'alan turing')).toBe(`?entity_searchText <http://jena.apache.org/text#query> "(alan* AND turing*)" . ${literals}`);
+        expect(() => createSearchBackend('graphdb')).toThrow(/needs the name of a Lucene connector/);
+    });
+
+    it('should bind resource searches to the entities the Lucene index matched', () => {
+        const resources = (backend: string, query: string, index?: string) =>
+            new QueryParserService(createSearchBackend(backend, index)).parseAndGenerateResourcePattern(query, '?resource', '?textProp', '?searchText');
+
+        expect(resources('jena', 'turing')).toBe(
+            '(?resource ?score_searchText ?searchText) <http://jena.apache.org/text#query> "turing*" . OPTIONAL { ?resource ?textProp ?searchText }'
+        );
+        expect(resources('graphdb', 'turing', 'kg_labels')).toContain(
+            '<http://www.ontotext.com/connectors/lucene#entities> ?resource . ?resource <http://www.ontotext.com/connectors/lucene#snippets> ?snippet_searchText .'
+        );
+        // Literal indexes search the text of any property
+        expect(resources('virtuoso', 'turing')).toBe(`?resource ?textProp ?searchText . ?searchText <bif:contains> "'turing*'" .`);
+    });
+});
@@ -30,8 +30,79 @@ export type QASTNode = TermNode | WordsNode | BinaryOpNode;
 
 export interface SearchBackend {
   generateWordsSearchPattern(words: string[], variable: string): string;
+  /** Translate the whole query tree at once (text indexes that evaluate AND/OR themselves) */
+  generateSearchPattern?(node: QASTNode, variable: string): string;
+  /**
+   * Match resources directly (text indexes over entities): bind `resource` to the matching entities,
+   * `text` to the text that matched and `property` to where it was found
+   */
+  generateResourceSearchPattern?(node: QASTNode, resource: string, property: string, text: string): string;
+}
+
+/**
+ * Letters and digits of a search word, the way text indexes tokenize it
+ */
+function tokenize(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(token => token.length > 0);
+}
+
+/**
+ * A variable derived from the searched one, unique per search so several searches don't join by accident
+ */
+function anchorVariable(prefix: string, variable: string): string {
+  const base = variable.replace(/^[?$]/, '');
+  const sanitized = base.replace(/[^A-Za-z0-9_]/g, '_');
+  return `?${prefix}_${sanitized || 'var'}`;
+}
+
+/**
+ * How a text index writes words, phrases and boolean operators
+ */
+interface TextQuerySyntax {
+  word(token: string): string;
+  phrase(tokens: string[]): string;
+  and: string;
+  or: string;
 }
 
+/**
+ * Render the query tree in a text index's own query language. A quoted term (or a word with
+ * punctuation, e.g. "Jean-Paul") becomes a phrase. Undefined if nothing searchable is left.
+ */
+function renderTextQuery(node: QASTNode, syntax: TextQuerySyntax): string | undefined {
+  const term = (text: string) => {
+    const tokens = tokenize(text);
+    if (tokens.length === 0) return undefined;
+    return tokens.length === 1 ? syntax.word(tokens[0]) : syntax.phrase(tokens);
+  };
+  const combine = (operator: string, parts: Array<string | undefined>) => {
+    const present = parts.filter((part): part is string => part !== undefined);
+    if (present.length <= 1) return present[0];
+    return `(${present.join(` ${operator} `)})`;
+  };
+
+  switch (node.type) {
+    case 'term':
+      return term(node.value);
+    case 'words':
+      return combine(syntax.and, node.words.map(term));
+    case 'and':
+      return combine(syntax.and, [renderTextQuery(node.left, syntax), renderTextQuery(node.right, syntax)]);
+    case 'or':
+      return combine(syntax.or, [renderTextQuery(node.left, syntax), renderTextQuery(node.right, syntax)]);
+  }
+}
+
+/**
+ * Lucene query syntax (GraphDB connectors, Jena text). Tokens are letters and digits, so nothing needs escaping.
+ */
+const LUCENE_SYNTAX: TextQuerySyntax = {
+  word: (token) => `${token.toLocaleLowerCase()}*`,
+  phrase: (tokens) => `\\"${tokens.join(' ')}\\"`,
+  and: 'AND',
+  or: 'OR',
+};
+
 
 export class FallbackBackend implements SearchBackend {
   generateWordsSearchPattern(words: string[], variable: string): string {
@@ -50,9 +121,7 @@ export class QLeverBackend implements SearchBackend {
   private buildAnchorVar(variable: string): string {
     // Derive a unique anchor variable per searched variable to avoid accidental joins
     // across multiple textSearch SERVICE blocks.
-    const base = variable.replace(/^[?$]/, '');
-    const sanitized = base.replace(/[^A-Za-z0-9_]/g, '_');
-    return `?anchor_${sanitized || 'var'}`;
+    return anchorVariable('anchor', variable);
   }
 
   generateWordsSearchPattern(words: string[], variable: string): string {
@@ -78,6 +147,167 @@ export class QLeverBackend implements SearchBackend {
   }
 }
 
+/**
+ * Virtuoso's free-text index: one bif:contains expression with AND, OR and phrases.
+ * Virtuoso only expands prefixes of at least 4 characters, shorter words match exactly.
+ */
+export class VirtuosoBackend implements SearchBackend {
+  private static readonly SYNTAX: TextQuerySyntax = {
+    word: (token) => (token.length >= 4 ? `'${token}*'` : `'${token}'`),
+    phrase: (tokens) => `'${tokens.join(' ')}'`,
+    and: 'AND',
+    or: 'OR',
+  };
+
+  generateWordsSearchPattern(words: string[], variable: string): string {
+    return this.generateSearchPattern({ type: 'words', words } as WordsNode, variable);
+  }
+
+  generateSearchPattern(node: QASTNode, variable: string): string {
+    const expression = renderTextQuery(node, VirtuosoBackend.SYNTAX);
+    return expression ? `${variable} <bif:contains> "${expression}" .` : "";
+  }
+}
+
+/**
+ * Blazegraph's full-text index. bds:search only matches bags of words (all of them with matchAllTerms),
+ * so the tree is expanded into a UNION of conjunctions, one search each.
+ */
+export class BlazegraphBackend implements SearchBackend {
+  /** Searches in one UNION, AND over ORs multiplies them */
+  static readonly MAX_SEARCHES = 16;
+
+  private conjunctions(node: QASTNode): string[][] {
+    switch (node.type) {
+      case 'term':
+        return [tokenize(node.value)];
+      case 'words':
+        return [node.words.flatMap(tokenize)];
+      case 'and': {
+        const left = this.conjunctions(node.left);
+        const right = this.conjunctions(node.right);
+        this.checkSize(left.length * right.length);
+        return left.flatMap(leftTokens => right.map(tokens => [...leftTokens, ...tokens]));
+      }
+      case 'or': {
+        const alternatives = [...this.conjunctions(node.left), ...this.conjunctions(node.right)];
+        this.checkSize(alternatives.length);
+        return alternatives;
+      }
+    }
+  }
+
+  private checkSize(searches: number): void {
+    if (searches > BlazegraphBackend.MAX_SEARCHES) {
+      throw new Error(
+        `The search query expands into ${searches} Blazegraph text searches, at most ${BlazegraphBackend.MAX_SEARCHES} are allowed. ` +
+        "Use fewer OR alternatives inside AND."
+      );
+    }
+  }
+
+  generateWordsSearchPattern(words: string[], variable: string): string {
+    return this.generateSearchPattern({ type: 'words', words } as WordsNode, variable);
+  }
+
+  generateSearchPattern(node: QASTNode, variable: string): string {
+    const searches = this.conjunctions(node)
+      .filter(tokens => tokens.length > 0)
+      .map(tokens => {
+        const words = [...new Set(tokens.map(token => `${token.toLocaleLowerCase()}*`))].join(' ');
+        return `${variable} <http://www.bigdata.com/rdf/search#search> "${words}" ; <http://www.bigdata.com/rdf/search#matchAllTerms> "true" .`;
+      });
+    return searches.length <= 1 ? (searches[0] ?? "") : searches.map(search => `{ ${search} }`).join(' UNION ');
+  }
+}
+
+/**
+ * Base of the Lucene indexes that match entities rather than literals. A searched literal variable
+ * takes the literals of the matching entities; a resource search binds the entities themselves.
+ */
+abstract class LuceneEntityBackend implements SearchBackend {
+  protected abstract matchEntities(entity: string, query: string, variable: string): string;
+  protected abstract matchResources(resource: string, property: string, text: string, query: string): string;
+
+  generateWordsSearchPattern(words: string[], variable: string): string {
+    return this.generateSearchPattern({ type: 'words', words } as WordsNode, variable);
+  }
+
+  generateSearchPattern(node: QASTNode, variable: string): string {
+    const query = renderTextQuery(node, LUCENE_SYNTAX);
+    if (!query) return "";
+    const entity = anchorVariable('entity', variable);
+    return `${this.matchEntities(entity, query, variable)} ${entity} ${anchorVariable('property', variable)} ${variable} . FILTER(isLiteral(${variable}))`;
+  }
+
+  generateResourceSearchPattern(node: QASTNode, resource: string, property: string, text: string): string {
+    const query = renderTextQuery(node, LUCENE_SYNTAX);
+    return query ? this.matchResources(resource, property, text, query) : "";
+  }
+}
+
+/**
+ * A GraphDB Lucene connector, queried through its instance IRI
+ */
+export class GraphDBBackend extends LuceneEntityBackend {
+  constructor(private index: string) {
+    super();
+  }
+
+  protected matchEntities(entity: string, query: string, variable: string): string {
+    const search = anchorVariable('search', variable);
+    return `${search} a <http://www.ontotext.com/connectors/lucene/instance#${this.index}> ; ` +
+      `<http://www.ontotext.com/connectors/lucene#query> "${query}" ; <http://www.ontotext.com/connectors/lucene#entities> ${entity} .`;
+  }
+
+  /**
+   * The matched text is a snippet (with <em> highlights), the property the name of the connector field
+   */
+  protected matchResources(resource: string, property: string, text: string, query: string): string {
+    const snippet = anchorVariable('snippet', text);
+    return `${this.matchEntities(resource, query, text)} ` +
+      `${resource} <http://www.ontotext.com/connectors/lucene#snippets> ${snippet} . ` +
+      `${snippet} <http://www.ontotext.com/connectors/lucene#snippetText> ${text} ; <http://www.ontotext.com/connectors/lucene#snippetField> ${property} .`;
+  }
+}
+
+/**
+ * Jena's text index (jena-text / Fuseki), text:query on the configured default field.
+ * A resource search takes the matched literal from the index, which needs `text:storeValues`.
+ */
+export class JenaTextBackend extends LuceneEntityBackend {
+  protected matchEntities(entity: string, query: string): string {
+    return `${entity} <http://jena.apache.org/text#query> "${query}" .`;
+  }
+
+  protected matchResources(resource: string, property: string, text: string, query: string): string {
+    return `(${resource} ${anchorVariable('score', text)} ${text}) <http://jena.apache.org/text#query> "${query}" . ` +
+      `OPTIONAL { ${resource} ${property} ${text} }`;
+  }
+}
+
+/**
+ * The search backend for a name: 'qlever', 'virtuoso', 'blazegraph', 'graphdb' (with the connector
+ * `index`) or 'jena'. Anything else is the universal fallback.
+ */
+export function createSearchBackend(name?: string, index?: string): SearchBackend {
+  switch (name) {
+    case 'qlever':
+      return new QLeverBackend();
+    case 'virtuoso':
+      return new VirtuosoBackend();
+    case 'blazegraph':
+      return new BlazegraphBackend();
+    case 'graphdb':
+      if (!index) throw new Error("The 'graphdb' search backend needs the name of a Lucene connector (searchIndex)");
+      return new GraphDBBackend(index);
+    case 'jena':
+      return new JenaTextBackend();
+    default:
+      return new FallbackBackend();
+  }
+}
+
 export class QueryParserService {
   private parser: any;
   private backend: SearchBackend;
@@ -87,6 +317,13 @@ export class QueryParserService {
     this.initializeParser();
   }
 
+  /**
+   * Switch the backend, e.g. once the endpoint's engine was detected
+   */
+  public setBackend(backend: SearchBackend): void {
+    this.backend = backend;
+  }
+
   private initializeParser() {
     try {
       const grammarPath = join(__dirname, '../grammar/query.pegjs');
@@ -113,6 +350,9 @@ export class QueryParserService {
    * @returns SPARQL pattern string
    */
   public generateSparqlPattern(ast: QASTNode, labelVariable: string = "searchLabel"): string {
+    if (this.backend.generateSearchPattern) {
+      return this.backend.generateSearchPattern(ast, labelVariable);
+    }
     return this.nodeToSparql(ast, labelVariable);
   }
 
@@ -124,6 +364,18 @@ export class QueryParserService {
     return this.generateSparqlPattern(ast, labelVariable);
   }
 
+  /**
+   * Parse query and generate a pattern binding `resource` to the matching resources,
+   * `text` to the text that matched and `property` to where it was found
+   */
+  public parseAndGenerateResourcePattern(query: string, resource: string, property: string, text: string): string {
+    const ast = this.parse(query);
+    if (this.backend.generateResourceSearchPattern) {
+      return this.backend.generateResourceSearchPattern(ast, resource, property, text);
+    }
+    return `${resource} ${property} ${text} . ${this.generateSparqlPattern(ast, text)}`;
+  }
+
   private nodeToSparql(node: QASTNode, labelVariable: string): string {
     switch (node.type) {
       case 'term':
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { checkQueryPolicy, DEFAULT_QUERY_POLICY, type QueryPolicy } from './queryPolicy.js';
+import { parseQuery } from './queryRewriter.js';
+
+const check = (query: string, policy: Partial<QueryPolicy> = {}) =>
+    () => checkQueryPolicy(parseQuery(query), { ...DEFAULT_QUERY_POLICY, ...policy });
+
+describe('checkQueryPolicy', () => {
+    it('should only allow SERVICE endpoints on the allowlist', () => {
+        expect(check('PREFIX wikibase: <http://wikiba.se/ontology#> SELECT ?s WHERE { SERVICE wikibase:label { ?s rdfs:label ?l } }')).not.toThrow();
+        expect(check('SELECT ?s WHERE { ?s ?p ?o FILTER EXISTS { SERVICE <http://evil.org/sparql> { ?s ?p ?o } } }'))
+            .toThrow(/SERVICE <http:\/\/evil.org\/sparql> is not allowed. Federated queries may only call: <https:\/\/qlever/);
+        expect(check('SELECT ?s WHERE { SERVICE <http://evil.org/sparql> { ?s ?p ?o } }', { allowedServices: [] }))
+            .toThrow(/federated queries are disabled/);
+        expect(check('SELECT ?s WHERE { SERVICE <https://query.example.org/sparql> { ?s ?p ?o } }', { allowedServices: ['https://query.example.org/*'] }))
+            .not.toThrow();
+        expect(check('SELECT ?s WHERE { ?e ?p ?o SERVICE ?e { ?s ?p ?o } }', { allowedServices: ['*'] }))
+            .toThrow(/SERVICE \?e is not allowed/);
+    });
+
+    it('should cap property path depth and query complexity', () => {
+        const query = 'SELECT ?s WHERE { ?s rdfs:subClassOf*/(rdf:type|^rdfs:seeAlso)/rdfs:label ?o OPTIONAL { ?s rdfs:comment ?c } FILTER(?o != ?c) }';
+        expect(check(query, { maxPathDepth: 3, maxComplexity: 4 })).not.toThrow();
+        expect(check(query, { maxPathDepth: 2, maxComplexity: 3 }))
+            .toThrow(/rejected by the server's query policy:\n- A property path has 3 steps, at most 2 are allowed.*\n- The query has 4 triple patterns and operators/);
+    });
+});
@@ -0,0 +1,156 @@
+import type { Expression, IriTerm, Pattern, PropertyPath, Query, Triple, VariableTerm } from "sparqljs";
+
+/**
+ * Limits on agent-written queries (the `query` tool). Updates are rejected by the parser regardless.
+ */
+export interface QueryPolicy {
+    /** SERVICE endpoints a query may call: full IRIs, or IRI prefixes ending in `*` */
+    allowedServices: string[];
+    /** Steps of the longest property path, sequences adding up (0 = no cap) */
+    maxPathDepth: number;
+    /** Triple patterns plus OPTIONAL, UNION, MINUS, GRAPH, SERVICE, FILTER and subqueries (0 = no cap) */
+    maxComplexity: number;
+}
+
+/**
+ * Services evaluated by the endpoint itself rather than by federation: QLever's text search and the Wikidata label service
+ */
+export const BUILTIN_SERVICES = ["https://qlever.cs.uni-freiburg.de/textSearch/", "http://wikiba.se/ontology#label"];
+
+export const DEFAULT_QUERY_POLICY: QueryPolicy = { allowedServices: BUILTIN_SERVICES, maxPathDepth: 0, maxComplexity: 0 };
+
+interface Findings {
+    complexity: number;
+    longestPath: number;
+    services: Array<IriTerm | VariableTerm>;
+}
+
+const BLOCK_PATTERNS = new Set(["optional", "union", "group", "graph", "minus", "service"]);
+
+function isPath(predicate: Triple["predicate"]): predicate is PropertyPath {
+    return "type" in predicate && predicate.type === "path";
+}
+
+function pathDepth(path: IriTerm | PropertyPath): number {
+    if (!("type" in path)) return 1;
+    switch (path.pathType) {
+        case "/":
+            return path.items.reduce((sum, item) => sum + pathDepth(item), 0);
+        case "|":
+            return Math.max(...path.items.map(pathDepth));
+        case "!":
+            return 1;
+        default:
+            return pathDepth(path.items[0]);
+    }
+}
+
+function visitTriples(triples: Triple[], findings: Findings): void {
+    for (const triple of triples) {
+        findings.complexity++;
+        if (isPath(triple.predicate)) {
+            findings.longestPath = Math.max(findings.longestPath, pathDepth(triple.predicate));
+        }
+    }
+}
+
+/**
+ * Expressions may hide graph patterns in FILTER EXISTS / NOT EXISTS
+ */
+function visitExpression(expression: Expression | Pattern | undefined, findings: Findings): void {
+    if (!expression || typeof expression !== "object") return;
+    if (Array.isArray(expression)) {
+        expression.forEach((entry) => visitExpression(entry, findings));
+        return;
+    }
+    if (!("type" in expression)) return;
+    switch (expression.type) {
+        case "operation":
+        case "functionCall":
+            expression.args.forEach((arg) => visitExpression(arg, findings));
+            return;
+        case "aggregate":
+            visitExpression(expression.expression as Expression, findings);
+            return;
+        default:
+            visitPatterns([expression as Pattern], findings);
+    }
+}
+
+function visitPatterns(patterns: Pattern[] | undefined, findings: Findings): void {
+    for (const pattern of patterns ?? []) {
+        switch (pattern.type) {
+            case "bgp":
+                visitTriples(pattern.triples, findings);
+                break;
+            case "filter":
+                findings.complexity++;
+                visitExpression(pattern.expression, findings);
+                break;
+            case "bind":
+                visitExpression(pattern.expression, findings);
+                break;
+            case "query":
+                findings.complexity++;
+                visitQuery(pattern, findings);
+                break;
+            case "values":
+                break;
+            default:
+                if (!BLOCK_PATTERNS.has(pattern.type)) break;
+                if (pattern.type !== "group") findings.complexity++;
+                if (pattern.type === "service") findings.services.push(pattern.name);
+                visitPatterns(pattern.patterns, findings);
+        }
+    }
+}
+
+function visitQuery(query: Query, findings: Findings): void {
+    visitPatterns(query.where, findings);
+    if (query.queryType === "SELECT") {
+        for (const variable of query.variables) {
+            if ("expression" in variable) visitExpression(variable.expression, findings);
+        }
+        query.having?.forEach((expression) => visitExpression(expression, findings));
+        query.order?.forEach((ordering) => visitExpression(ordering.expression, findings));
+    }
+}
+
+function serviceAllowed(iri: string, allowed: string[]): boolean {
+    return allowed.some((entry) => (entry.endsWith("*") ? iri.startsWith(entry.slice(0, -1)) : iri === entry));
+}
+
+/**
+ * Check a parsed query against the policy. Throws an error explaining every violation.
+ */
+export function checkQueryPolicy(query: Query, policy: QueryPolicy): void {
+    const findings: Findings = { complexity: 0, longestPath: 0, services: [] };
+    visitQuery(query, findings);
+
+    const violations: string[] = [];
+    for (const service of findings.services) {
+        if (service.termType === "Variable") {
+            violations.push(`SERVICE ?${service.value} is not allowed, the endpoint of a SERVICE clause must be a fixed IRI.`);
+        } else if (!serviceAllowed(service.value, policy.allowedServices)) {
+            violations.push(policy.allowedServices.length > 0
+                ? `SERVICE <${service.value}> is not allowed. Federated queries may only call: ${policy.allowedServices.map((entry) => `<${entry}>`).join(", ")}.`
+                : `SERVICE <${service.value}> is not allowed, federated queries are disabled on this server.`);
+        }
+    }
+    if (policy.maxPathDepth > 0 && findings.longestPath > policy.maxPathDepth) {
+        violations.push(
+            `A property path has ${findings.longestPath} steps, at most ${policy.maxPathDepth} are allowed. ` +
+            "Spell out some steps as separate triple patterns with intermediate variables."
+        );
+    }
+    if (policy.maxComplexity > 0 && findings.complexity > policy.maxComplexity) {
+        violations.push(
+            `The query has ${findings.complexity} triple patterns and operators (OPTIONAL, UNION, MINUS, GRAPH, SERVICE, FILTER, subqueries), ` +
+            `at most ${policy.maxComplexity} are allowed. Split it into smaller queries.`
+        );
+    }
+
+    if (violations.length > 0) {
+        throw new Error(`The query was rejected by the server's query policy:\n${violations.map((violation) => `- ${violation}`).join("\n")}`);
+    }
+}
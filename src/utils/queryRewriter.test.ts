@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuery, rewriteQuery, selectVariables } from './queryRewriter.js';
+
+describe('rewriteQuery', () => {
+    it('should only make the top-level SELECT distinct', () => {
+        const { query } = rewriteQuery(`
+            SELECT (COUNT(?x) AS ?count) WHERE {
+                { SELECT ?x WHERE { ?x rdfs:label "select this" } LIMIT 100000 }
+            }`, { distinct: true });
+
+        expect(query).toMatch(/^SELECT DISTINCT \(COUNT\(\?x\) AS \?count\)/m);
+        expect(query).toContain('SELECT ?x WHERE');
+        expect(query).toContain('"select this"');
+        expect(query).toContain('LIMIT 100000');
+    });
+
+    it('should declare the registered prefixes a query uses', () => {
+        const { query } = rewriteQuery('PREFIX ex: <http://example.org/> SELECT ?s WHERE { ?s rdfs:label ?o; ex:p ?x }');
+
+        expect(query).toContain('PREFIX rdfs: <http://www.w3.org/2000/01/rdf-schema#>');
+        expect(query).toContain('PREFIX ex: <http://example.org/>');
+        expect(query).not.toContain('PREFIX owl:');
+    });
+
+    it('should cap the top-level LIMIT', () => {
+        expect(rewriteQuery('SELECT * WHERE { ?s ?p ?o }', { maxLimit: 500 })).toMatchObject({ limitCapped: true });
+        expect(rewriteQuery('SELECT * WHERE { ?s ?p ?o } LIMIT 10', { maxLimit: 500 })).toMatchObject({ limitCapped: false });
+
+        const construct = rewriteQuery('CONSTRUCT WHERE { ?s ?p ?o } LIMIT 100000', { maxLimit: 500 });
+        expect(construct).toMatchObject({ queryType: 'CONSTRUCT', limitCapped: true });
+        expect(construct.query).toMatch(/LIMIT 500$/);
+
+        expect(rewriteQuery('ASK { ?s ?p ?o }', { maxLimit: 500 }).query).not.toContain('LIMIT');
+    });
+
+    it('should report syntax errors with line and column', () => {
+        expect(() => rewriteQuery('SELECT ?s\nWHERE {\n  ?s ?p ?o\n  FILTER(?s = )\n}'))
+            .toThrow(/^SPARQL syntax error at line 4, column 15: unexpected '\)'\n {4}FILTER\(\?s = \)\n {16}\^\nExpected: /);
+        expect(() => rewriteQuery('SELECT ?s WHERE { ?s ?p ?o'))
+            .toThrow(/line 1, column 27: unexpected end of query/);
+        expect(() => rewriteQuery('SELECT ?s WHERE {\n  ?s nope:name ?o }'))
+            .toThrow(/line 2, column 6: unknown prefix 'nope:'/);
+        expect(() => rewriteQuery('INSERT DATA { <http://a.org/s> <http://a.org/p> 1 }'))
+            .toThrow(/updates are not supported/);
+    });
+});
+
+describe('selectVariables', () => {
+    const variables = (query: string) => {
+        const parsed = parseQuery(query);
+        return parsed.queryType === 'SELECT' ? selectVariables(parsed) : [];
+    };
+
+    it('should list the projection, or the in-scope variables of SELECT *', () => {
+        expect(variables('SELECT ?o (COUNT(?s) AS ?count) WHERE { ?s ?p ?o } GROUP BY ?o')).toEqual(['o', 'count']);
+        expect(variables(`SELECT * WHERE {
+            GRAPH ?g { ?s rdfs:label ?label }
+            OPTIONAL { ?s rdfs:comment ?comment }
+            BIND(STRLEN(?label) AS ?length)
+            FILTER NOT EXISTS { ?s a ?type }
+            MINUS { ?s owl:sameAs ?other }
+        } VALUES ?lang { "en" }`)).toEqual(['g', 's', 'label', 'comment', 'length', 'lang']);
+    });
+});
@@ -0,0 +1,195 @@
+import { Parser, Generator, type SparqlQuery, type Query, type Pattern, type SelectQuery, type Term, type ValuePatternRow } from "sparqljs";
+import { PrefixManager } from "./PrefixManager.js";
+import { checkQueryPolicy, type QueryPolicy } from "./queryPolicy.js";
+
+/**
+ * Rewrites applied to the top-level query (subqueries are left alone)
+ */
+export interface RewriteOptions {
+    /** Make SELECT results DISTINCT */
+    distinct?: boolean;
+    /** Cap the LIMIT of SELECT, CONSTRUCT and DESCRIBE queries (0 or undefined = no cap) */
+    maxLimit?: number;
+    /** Prefixes usable without declaring them (default: the global ones) */
+    prefixes?: Record<string, string>;
+    /** Reject queries the policy does not allow (default: no check) */
+    policy?: QueryPolicy;
+}
+
+export interface RewrittenQuery {
+    query: string;
+    queryType: Query["queryType"];
+    /** The LIMIT was added or lowered to `maxLimit` */
+    limitCapped: boolean;
+}
+
+/** Expected tokens listed in syntax errors */
+const MAX_EXPECTED = 8;
+
+interface ParseErrorHash {
+    text?: string;
+    token?: string;
+    loc?: { first_line: number; last_line: number; first_column: number; last_column: number };
+    expected?: string[];
+}
+
+/**
+ * Line and column (both 1-based) of a character offset
+ */
+function position(query: string, offset: number): { line: number; column: number } {
+    const before = query.slice(0, offset).split("\n");
+    return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Render the offending line with a caret under the column
+ */
+function excerpt(query: string, line: number, column: number): string {
+    const text = query.split("\n")[line - 1] ?? "";
+    return `  ${text}\n  ${" ".repeat(Math.max(0, column - 1))}^`;
+}
+
+/**
+ * Turn a sparqljs parse error into a message with line and column for the agent
+ */
+function syntaxError(query: string, error: Error & { hash?: ParseErrorHash }): Error {
+    const hash = error.hash;
+
+    const unknownPrefix = error.message.match(/^Unknown prefix: (.*)$/);
+    if (unknownPrefix) {
+        const prefix = unknownPrefix[1];
+        const offset = query.search(new RegExp(`(?<![\\w.-])${prefix.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}:`));
+        const at = offset >= 0 ? position(query, offset) : undefined;
+        return new Error(
+            `SPARQL syntax error${at ? ` at line ${at.line}, column ${at.column}` : ""}: unknown prefix '${prefix}:'. ` +
+            `Declare it with PREFIX ${prefix}: <namespace IRI> or use the full IRI.` +
+            (at ? `\n${excerpt(query, at.line, at.column)}` : "")
+        );
+    }
+
+    if (!hash?.loc) {
+        return new Error(`SPARQL syntax error: ${error.message}`);
+    }
+
+    // The location is that of the last valid token, the offending one follows it
+    const lines = query.split("\n");
+    const lineStart = lines.slice(0, hash.loc.last_line - 1).reduce((sum, text) => sum + text.length + 1, 0);
+    const from = lineStart + hash.loc.last_column;
+    const found = hash.text ? query.indexOf(hash.text, from) : -1;
+    const at = position(query, found >= 0 ? found : Math.min(from, query.length));
+
+    const token = hash.token === "EOF" ? "end of query" : `'${hash.text ?? hash.token}'`;
+    const expected = (hash.expected ?? []).map((entry) => entry.replace(/^'|'$/g, ""));
+    const expectedText = expected.length > 0
+        ? `\nExpected: ${expected.slice(0, MAX_EXPECTED).join(", ")}${expected.length > MAX_EXPECTED ? ", ..." : ""}`
+        : "";
+
+    return new Error(
+        `SPARQL syntax error at line ${at.line}, column ${at.column}: unexpected ${token}\n${excerpt(query, at.line, at.column)}${expectedText}`
+    );
+}
+
+/**
+ * Parse a query with the registered prefixes available. Throws errors with line and column positions.
+ */
+export function parseQuery(query: string, prefixes: Record<string, string> = PrefixManager.getInstance().getPrefixMap()): Query {
+    const parser = new Parser({ prefixes, sparqlStar: true });
+    let parsed: SparqlQuery;
+    try {
+        parsed = parser.parse(query);
+    } catch (error) {
+        throw syntaxError(query, error as Error);
+    }
+    if (parsed.type !== "query") {
+        throw new Error("This server is read-only, SPARQL updates are not supported (INSERT, DELETE, LOAD, CLEAR, ...). Use SELECT, ASK, CONSTRUCT or DESCRIBE.");
+    }
+    return parsed;
+}
+
+/**
+ * Parse a query, apply the rewrites on the AST and serialize it again.
+ * Registered prefixes may be used without declaring them; the output declares the ones it uses.
+ */
+export function rewriteQuery(query: string, options: RewriteOptions = {}): RewrittenQuery {
+    const parsed = parseQuery(query, options.prefixes);
+    if (options.policy) {
+        checkQueryPolicy(parsed, options.policy);
+    }
+
+    if (options.distinct && parsed.queryType === "SELECT" && !parsed.reduced) {
+        parsed.distinct = true;
+    }
+
+    let limitCapped = false;
+    if (options.maxLimit && parsed.queryType !== "ASK") {
+        // The typings only declare LIMIT on SELECT, but the parser and generator handle it for all forms
+        const limited = parsed as Query & { limit?: number };
+        if (limited.limit === undefined || limited.limit > options.maxLimit) {
+            limited.limit = options.maxLimit;
+            limitCapped = true;
+        }
+    }
+
+    return { query: new Generator().stringify(parsed), queryType: parsed.queryType, limitCapped };
+}
+
+function addTermVariables(terms: Array<Term | { type: "path" }>, variables: Set<string>): void {
+    for (const term of terms) {
+        if (!("termType" in term)) continue;
+        if (term.termType === "Variable") {
+            variables.add(term.value);
+        } else if (term.termType === "Quad") {
+            addTermVariables([term.subject, term.predicate, term.object] as Term[], variables);
+        }
+    }
+}
+
+function addValuesVariables(rows: ValuePatternRow[], variables: Set<string>): void {
+    rows.forEach((row) => Object.keys(row).forEach((key) => variables.add(key.replace(/^[?$]/, ""))));
+}
+
+/**
+ * Variables a group graph pattern binds, in order of appearance (what `SELECT *` returns).
+ * FILTER and MINUS bind nothing.
+ */
+function addPatternVariables(patterns: Pattern[] | undefined, variables: Set<string>): void {
+    for (const pattern of patterns ?? []) {
+        switch (pattern.type) {
+            case "bgp":
+                pattern.triples.forEach((triple) => addTermVariables([triple.subject, triple.predicate, triple.object], variables));
+                break;
+            case "bind":
+                variables.add(pattern.variable.value);
+                break;
+            case "values":
+                addValuesVariables(pattern.values, variables);
+                break;
+            case "query":
+                selectVariables(pattern).forEach((variable) => variables.add(variable));
+                break;
+            case "graph":
+            case "service":
+                addTermVariables([pattern.name], variables);
+                addPatternVariables(pattern.patterns, variables);
+                break;
+            case "optional":
+            case "union":
+            case "group":
+                addPatternVariables(pattern.patterns, variables);
+                break;
+        }
+    }
+}
+
+/**
+ * The result variables of a SELECT query in projection order, including variables no row binds
+ */
+export function selectVariables(query: SelectQuery): string[] {
+    if (query.variables.some((variable) => "termType" in variable && variable.termType === "Wildcard")) {
+        const variables = new Set<string>();
+        addPatternVariables(query.where, variables);
+        addValuesVariables(query.values ?? [], variables);
+        return [...variables];
+    }
+    return query.variables.map((variable) => ("variable" in variable ? variable.variable.value : (variable as { value: string }).value));
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { backoffDelay, isTransientFailure, parseRetryAfter } from './retry.js';
+
+describe('retry', () => {
+    it('should parse Retry-After as seconds or an HTTP date', () => {
+        const now = Date.parse('2025-01-01T00:00:00Z');
+        expect(parseRetryAfter('5', now)).toBe(5000);
+        expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:30 GMT', now)).toBe(30_000);
+        expect(parseRetryAfter('soon', now)).toBeUndefined();
+        expect(parseRetryAfter(null, now)).toBeUndefined();
+    });
+
+    it('should classify statuses, network errors and dropped connections', () => {
+        const error = new Error('Invalid SPARQL endpoint response');
+        expect(isTransientFailure(error, { status: 503 })).toBe(true);
+        expect(isTransientFailure(error, { status: 429 })).toBe(true);
+        expect(isTransientFailure(error, { status: 400 })).toBe(false);
+        expect(isTransientFailure(error, { status: 500 })).toBe(false);
+        expect(isTransientFailure(new TypeError('fetch failed'), { networkError: true })).toBe(true);
+        expect(isTransientFailure(new TypeError('terminated'), {})).toBe(true);
+        expect(isTransientFailure(new Error('Parse error on line 1'), {})).toBe(false);
+    });
+
+    it('should back off exponentially with jitter and cap Retry-After', () => {
+        const options = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+        for (let i = 0; i < 20; i++) {
+            expect(backoffDelay(0, options)).toBeLessThanOrEqual(100);
+            expect(backoffDelay(2, options)).toBeLessThanOrEqual(400);
+            expect(backoffDelay(10, options)).toBeLessThanOrEqual(1000);
+        }
+        expect(backoffDelay(0, options, 60_000)).toBe(1000);
+    });
+});
@@ -0,0 +1,114 @@
+import Logger from "./logger.js";
+
+/**
+ * Retry policy for transient SPARQL failures
+ */
+export interface RetryOptions {
+    /** Retries after the first attempt (0 = no retries) */
+    maxRetries: number;
+    /** Backoff before the first retry, doubled for each further retry */
+    baseDelayMs: number;
+    /** Upper bound of a single wait, also for `Retry-After` */
+    maxDelayMs: number;
+}
+
+/**
+ * What the HTTP layer saw during one attempt (filled in by the fetch wrapper)
+ */
+export interface AttemptInfo {
+    /** Status of the last failed response */
+    status?: number;
+    /** Delay requested by the last `Retry-After` header */
+    retryAfterMs?: number;
+    /** The request failed before a response arrived (connection refused, reset, DNS, ...) */
+    networkError?: boolean;
+}
+
+/** Rate limited, gateway errors and overload - worth another try. Other statuses (400 syntax errors, 500 query errors) are not. */
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 502, 503, 504]);
+
+/** Connections dropped while the response body was streaming */
+const DROPPED_CONNECTION = /\b(terminated|socket hang up|ECONNRESET|EPIPE|other side closed)\b/i;
+
+export function isTransientFailure(error: unknown, attempt: AttemptInfo): boolean {
+    if (attempt.status !== undefined) {
+        return TRANSIENT_STATUSES.has(attempt.status);
+    }
+    if (attempt.networkError) {
+        return true;
+    }
+    const cause = (error as { cause?: { message?: string } } | undefined)?.cause;
+    const message = error instanceof Error ? `${error.message} ${cause?.message ?? ""}` : String(error);
+    return DROPPED_CONNECTION.test(message);
+}
+
+/**
+ * Parse a `Retry-After` header (seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!value) return undefined;
+    if (/^\d+$/.test(value.trim())) {
+        return Number(value.trim()) * 1000;
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Wait before retry number `retry` (0-based): the server's `Retry-After` if given,
+ * else exponential backoff with full jitter.
+ */
+export function backoffDelay(retry: number, options: RetryOptions, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+        return Math.min(retryAfterMs, options.maxDelayMs);
+    }
+    const ceiling = Math.min(options.baseDelayMs * 2 ** retry, options.maxDelayMs);
+    return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+        const timer = setTimeout(resolve, ms);
+        signal?.addEventListener("abort", () => {
+            clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
+}
+
+/**
+ * Run `attempt` until it succeeds, fails permanently or runs out of retries.
+ * Nothing is retried once `signal` aborted (timeout or cancellation).
+ */
+export async function withRetry<T>(
+    label: string,
+    options: RetryOptions,
+    attempt: (info: AttemptInfo) => Promise<T>,
+    signal?: AbortSignal
+): Promise<T> {
+    for (let retry = 0; ; retry++) {
+        const info: AttemptInfo = {};
+        try {
+            const result = await attempt(info);
+            if (retry > 0) {
+                Logger.debug(`SPARQL query to ${label} succeeded after ${retry} ${retry === 1 ? "retry" : "retries"}`);
+            }
+            return result;
+        } catch (error) {
+            if (signal?.aborted || retry >= options.maxRetries || !isTransientFailure(error, info)) {
+                if (retry > 0) {
+                    Logger.debug(`SPARQL query to ${label} failed after ${retry} ${retry === 1 ? "retry" : "retries"}`);
+                }
+                throw error;
+            }
+
+            const delay = backoffDelay(retry, options, info.retryAfterMs);
+            const reason = info.status !== undefined ? `HTTP ${info.status}` : error instanceof Error ? error.message : String(error);
+            Logger.debug(`Retrying SPARQL query to ${label} in ${delay}ms (${reason})`);
+            await sleep(delay, signal);
+            if (signal?.aborted) {
+                throw error;
+            }
+        }
+    }
+}
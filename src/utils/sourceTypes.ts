@@ -0,0 +1,17 @@
+import type { SourceType } from "../types/index.js";
+import { isLocalSource } from "./LocalSource.js";
+
+/**
+ * The configured source type of an endpoint, or the one its URL implies
+ */
+export function resolveSourceType(endpoint: string, sourceType?: SourceType): SourceType {
+    return sourceType ?? (isLocalSource(endpoint) ? "file" : "sparql");
+}
+
+/**
+ * Text search filters literals of the whole dataset. Over TPF (or whatever a hypermedia URL turns out to be)
+ * that means downloading every fragment, so only SPARQL endpoints and single files support it.
+ */
+export function supportsTextSearch(sourceType: SourceType): boolean {
+    return sourceType === "sparql" || sourceType === "file";
+}
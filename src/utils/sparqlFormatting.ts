@@ -52,11 +52,10 @@ export function formatUriOrPrefixedName(value: string): string {
 /**
  * Resolve a property name to a SPARQL-ready string.
  */
-export function resolvePropertyToUri(property: string): string {
+export function resolvePropertyToUri(property: string, prefixManager: PrefixManager = PrefixManager.getInstance()): string {
     try {
         return formatUriOrPrefixedName(property);
     } catch (e) {
-        let prefixManager = PrefixManager.getInstance();
         let availablePrefixes = prefixManager.getAvailablePrefixes();
         throw new Error(`Cannot resolve property '${property}'. Use a full URI or a prefixed name (Available prefixes: ${availablePrefixes.join(', ')}).`);
     }
@@ -227,7 +226,7 @@ export async function resolveLabel(
   `;
 
     try {
-        const results = await queryService.executeQueryRaw(query, [sparqlEndpoint]);
+        const results = await queryService.executeQueryRaw(query, [sparqlEndpoint], { trusted: true });
         if (results.length > 0 && results[0].label) {
             return formatLocalName(results[0].label.value);
         }
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DataFactory } from 'n3';
+import { FileStorage } from './FileStorage.js';
+import { CitationDatabase } from '../CitationDatabase.js';
+import { ExplanationDatabase } from '../ExplanationDatabase.js';
+
+const { namedNode, literal, quad } = DataFactory;
+
+describe('FileStorage', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kg-mcp-storage-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should replay sets and deletes after a restart', () => {
+        const first = new FileStorage(dir).collection<{ n: number }>('items');
+        first.set('a', { n: 1 });
+        first.set('b', { n: 2 });
+        first.set('a', { n: 3 });
+        first.delete('b');
+
+        const second = new FileStorage(dir).collection<{ n: number }>('items');
+        expect(second.size).toBe(1);
+        expect(second.get('a')).toEqual({ n: 3 });
+        expect(second.has('b')).toBe(false);
+    });
+
+    it('should keep citations with typed literals and their activation state', () => {
+        const quads = [
+            quad(
+                namedNode('https://dblp.org/pid/t/AlanMTuring'),
+                namedNode('http://www.w3.org/2000/01/rdf-schema#label'),
+                literal('Alan M. Turing', 'en')
+            ),
+            quad(
+                namedNode('https://dblp.org/rec/journals/x'),
+                namedNode('https://dblp.org/rdf/schema#yearOfPublication'),
+                literal('1950', namedNode('http://www.w3.org/2001/XMLSchema#gYear'))
+            ),
+        ];
+
+        const citationDb = new CitationDatabase(new FileStorage(dir));
+        const id = citationDb.storeCitation('session-1', quads);
+        citationDb.activateCitation(id);
+
+        const restored = new CitationDatabase(new FileStorage(dir));
+        const citation = restored.getCitation(id);
+        expect(citation?.type).toBe('triple');
+        expect(citation?.isActive).toBe(true);
+        expect(citation?.createdAt).toBeInstanceOf(Date);
+        if (citation?.type === 'triple') {
+            expect(citation.quads.length).toBe(2);
+            expect(citation.quads[0].object.equals(quads[0].object)).toBe(true);
+            expect(citation.quads[1].object.equals(quads[1].object)).toBe(true);
+        }
+        expect(restored.getCitationsForSession('session-1').length).toBe(1);
+    });
+
+    it('should keep executions and explanations', () => {
+        const explanationDb = new ExplanationDatabase(new FileStorage(dir));
+        const executionId = explanationDb.logExecution('session-1', 'search', { query: 'Turing' });
+        const explanationId = explanationDb.storeExplanation('session-1', 'Title', 'Answer', [
+            { description: 'Searched', executionKey: executionId, toolName: 'search', toolParams: { query: 'Turing' } },
+        ], true);
+
+        const restored = new ExplanationDatabase(new FileStorage(dir));
+        expect(restored.getExecution(executionId)?.params).toEqual({ query: 'Turing' });
+        expect(restored.getExplanation(explanationId)?.steps.length).toBe(1);
+        expect(restored.getExplanationsForSession('session-1').length).toBe(1);
+    });
+});
@@ -0,0 +1,114 @@
+import fs from "fs";
+import path from "path";
+import Logger from "../logger.js";
+import type { StorageBackend, StorageCodec, StorageCollection } from "./types.js";
+
+type LogEntry =
+    | { op: "set"; id: string; value: unknown }
+    | { op: "del"; id: string };
+
+const identityCodec: StorageCodec<any> = {
+    serialize: (value) => value,
+    deserialize: (raw) => raw,
+};
+
+/**
+ * A collection persisted as an append-only JSON-lines log.
+ * Every change is appended synchronously, so a crash loses at most the write in flight.
+ * The log is rewritten (compacted) on load and whenever it grows well beyond the live data.
+ */
+class FileCollection<T> implements StorageCollection<T> {
+    private items: Map<string, T> = new Map();
+    private logLines = 0;
+
+    constructor(private filePath: string, private codec: StorageCodec<T>) {
+        this.load();
+        this.compact();
+    }
+
+    private load(): void {
+        if (!fs.existsSync(this.filePath)) return;
+
+        const lines = fs.readFileSync(this.filePath, "utf8").split("\n");
+        for (const [index, line] of lines.entries()) {
+            if (!line.trim()) continue;
+            try {
+                const entry = JSON.parse(line) as LogEntry;
+                if (entry.op === "set") {
+                    this.items.set(entry.id, this.codec.deserialize(entry.value));
+                } else if (entry.op === "del") {
+                    this.items.delete(entry.id);
+                }
+            } catch (error) {
+                // A torn final line after a crash is expected; anything else is worth knowing about
+                Logger.warn(`Skipping unreadable entry in ${this.filePath} (line ${index + 1})`, { error });
+            }
+        }
+    }
+
+    private compact(): void {
+        const tmpPath = `${this.filePath}.tmp`;
+        const lines = Array.from(this.items.entries()).map(([id, value]) =>
+            JSON.stringify({ op: "set", id, value: this.codec.serialize(value) })
+        );
+        fs.writeFileSync(tmpPath, lines.length > 0 ? lines.join("\n") + "\n" : "");
+        fs.renameSync(tmpPath, this.filePath);
+        this.logLines = lines.length;
+    }
+
+    private append(entry: LogEntry): void {
+        fs.appendFileSync(this.filePath, JSON.stringify(entry) + "\n");
+        this.logLines += 1;
+        if (this.logLines > Math.max(1000, this.items.size * 2)) {
+            this.compact();
+        }
+    }
+
+    get(id: string): T | undefined {
+        return this.items.get(id);
+    }
+
+    has(id: string): boolean {
+        return this.items.has(id);
+    }
+
+    set(id: string, value: T): void {
+        this.items.set(id, value);
+        this.append({ op: "set", id, value: this.codec.serialize(value) });
+    }
+
+    delete(id: string): boolean {
+        if (!this.items.delete(id)) return false;
+        this.append({ op: "del", id });
+        return true;
+    }
+
+    values(): IterableIterator<T> {
+        return this.items.values();
+    }
+
+    get size(): number {
+        return this.items.size;
+    }
+}
+
+/**
+ * Durable backend storing each collection as `<directory>/<name>.jsonl`.
+ */
+export class FileStorage implements StorageBackend {
+    readonly persistent = true;
+    private collections: Map<string, StorageCollection<any>> = new Map();
+
+    constructor(private directory: string) {
+        fs.mkdirSync(directory, { recursive: true });
+    }
+
+    collection<T>(name: string, codec: StorageCodec<T> = identityCodec): StorageCollection<T> {
+        if (!this.collections.has(name)) {
+            const filePath = path.join(this.directory, `${name}.jsonl`);
+            this.collections.set(name, new FileCollection<T>(filePath, codec));
+            Logger.info(`Loaded storage collection '${name}' from ${filePath}`);
+        }
+        return this.collections.get(name)!;
+    }
+}
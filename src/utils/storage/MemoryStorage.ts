@@ -0,0 +1,44 @@
+import type { StorageBackend, StorageCodec, StorageCollection } from "./types.js";
+
+class MemoryCollection<T> implements StorageCollection<T> {
+    private items: Map<string, T> = new Map();
+
+    get(id: string): T | undefined {
+        return this.items.get(id);
+    }
+
+    has(id: string): boolean {
+        return this.items.has(id);
+    }
+
+    set(id: string, value: T): void {
+        this.items.set(id, value);
+    }
+
+    delete(id: string): boolean {
+        return this.items.delete(id);
+    }
+
+    values(): IterableIterator<T> {
+        return this.items.values();
+    }
+
+    get size(): number {
+        return this.items.size;
+    }
+}
+
+/**
+ * Default backend: everything lives in process memory and is lost on restart.
+ */
+export class MemoryStorage implements StorageBackend {
+    readonly persistent = false;
+    private collections: Map<string, StorageCollection<any>> = new Map();
+
+    collection<T>(name: string, _codec?: StorageCodec<T>): StorageCollection<T> {
+        if (!this.collections.has(name)) {
+            this.collections.set(name, new MemoryCollection<T>());
+        }
+        return this.collections.get(name)!;
+    }
+}
@@ -0,0 +1,16 @@
+import { Parser, Writer } from "n3";
+import type { Quad } from "@rdfjs/types";
+
+/**
+ * Serialize quads as an N-Quads string (keeps term types, datatypes, language tags and graphs)
+ */
+export function serializeQuads(quads: Quad[]): string {
+    return new Writer({ format: "N-Quads" }).quadsToString(quads);
+}
+
+/**
+ * Parse quads previously written by serializeQuads
+ */
+export function deserializeQuads(nquads: string): Quad[] {
+    return new Parser({ format: "N-Quads" }).parse(nquads) as Quad[];
+}
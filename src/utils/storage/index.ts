@@ -0,0 +1,22 @@
+import { MemoryStorage } from "./MemoryStorage.js";
+import { FileStorage } from "./FileStorage.js";
+import type { StorageBackend } from "./types.js";
+
+export * from "./types.js";
+export * from "./codecs.js";
+export { MemoryStorage } from "./MemoryStorage.js";
+export { FileStorage } from "./FileStorage.js";
+
+/**
+ * Create a storage backend by name ("memory" or "file")
+ */
+export function createStorage(type: string, storagePath: string): StorageBackend {
+    switch (type.toLowerCase()) {
+        case "memory":
+            return new MemoryStorage();
+        case "file":
+            return new FileStorage(storagePath);
+        default:
+            throw new Error(`Invalid storage backend '${type}'. Must be 'memory' or 'file'.`);
+    }
+}
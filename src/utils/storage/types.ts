@@ -0,0 +1,31 @@
+/**
+ * Converts stored values to and from a JSON-compatible representation.
+ * Only used by persistent backends; the in-memory backend keeps values as-is.
+ */
+export interface StorageCodec<T> {
+    serialize(value: T): unknown;
+    deserialize(raw: any): T;
+}
+
+/**
+ * A named key/value collection (e.g. "citations", "executions").
+ * The API is synchronous so databases can keep their synchronous interface.
+ */
+export interface StorageCollection<T> {
+    get(id: string): T | undefined;
+    has(id: string): boolean;
+    /** Insert or replace a value. Call again after mutating a value to persist the change. */
+    set(id: string, value: T): void;
+    delete(id: string): boolean;
+    values(): IterableIterator<T>;
+    readonly size: number;
+}
+
+/**
+ * Storage backend shared by CitationDatabase and ExplanationDatabase
+ */
+export interface StorageBackend {
+    /** Whether data survives a process restart */
+    readonly persistent: boolean;
+    collection<T>(name: string, codec?: StorageCodec<T>): StorageCollection<T>;
+}